@@ -39,7 +39,7 @@ interface BonusRecipient {
 
 export const BonusDistribution: React.FC = () => {
   const { provider, signer } = useWalletContext();
-  const { distributeBonus } = usePayrollContract(provider || undefined, signer || undefined);
+  const { distributeBonus, isPaused } = usePayrollContract(provider || undefined, signer || undefined);
   
   const [recipients, setRecipients] = useState<BonusRecipient[]>([]);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -156,6 +156,7 @@ export const BonusDistribution: React.FC = () => {
                   variant="outlined"
                   startIcon={<AddIcon />}
                   onClick={() => setIsAddDialogOpen(true)}
+                  disabled={isPaused}
                   size="small"
                 >
                   Add Recipient
@@ -235,7 +236,7 @@ export const BonusDistribution: React.FC = () => {
                 fullWidth
                 startIcon={isLoading ? <CircularProgress size={16} /> : <SendIcon />}
                 onClick={handleDistributeBonuses}
-                disabled={isLoading || recipients.length === 0}
+                disabled={isLoading || isPaused || recipients.length === 0}
                 size="large"
               >
                 {isLoading ? 'Distributing...' : 'Distribute Bonuses'}
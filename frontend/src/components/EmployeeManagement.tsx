@@ -22,6 +22,7 @@ import {
 import { useWalletContext } from '../contexts/WalletContext';
 import { usePayrollContract } from '../hooks/usePayrollContract';
 import { isValidEthereumAddress, isValidAmount } from '../utils/formatters';
+import { PAYROLL_CONSTANTS } from '../utils/constants';
 import toast from 'react-hot-toast';
 
 interface EmployeeManagementProps {
@@ -30,7 +31,7 @@ interface EmployeeManagementProps {
 
 export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmployeeChange }) => {
   const { provider, signer } = useWalletContext();
-  const { addEmployee } = usePayrollContract(provider || undefined, signer || undefined);
+  const { addEmployee, isPaused } = usePayrollContract(provider || undefined, signer || undefined);
   
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -39,6 +40,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmploy
     name: '',
     position: '',
     salary: '',
+    taxRate: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -69,6 +71,13 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmploy
       newErrors.salary = 'Salary must be greater than 0';
     }
 
+    const taxRate = parseFloat(formData.taxRate);
+    if (!formData.taxRate.trim()) {
+      newErrors.taxRate = 'Tax rate is required';
+    } else if (isNaN(taxRate) || taxRate < 0 || taxRate > PAYROLL_CONSTANTS.MAX_TAX_RATE_PERCENT) {
+      newErrors.taxRate = `Tax rate must be between 0 and ${PAYROLL_CONSTANTS.MAX_TAX_RATE_PERCENT}%`;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -94,12 +103,13 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmploy
         formData.address,
         formData.name.trim(),
         formData.position.trim(),
-        salaryInCents
+        salaryInCents,
+        parseFloat(formData.taxRate)
       );
 
       if (success) {
         toast.success('Employee added successfully!');
-        setFormData({ address: '', name: '', position: '', salary: '' });
+        setFormData({ address: '', name: '', position: '', salary: '', taxRate: '' });
         setIsAddDialogOpen(false);
         onEmployeeChange?.();
       }
@@ -113,7 +123,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmploy
   const handleCloseDialog = () => {
     if (!isLoading) {
       setIsAddDialogOpen(false);
-      setFormData({ address: '', name: '', position: '', salary: '' });
+      setFormData({ address: '', name: '', position: '', salary: '', taxRate: '' });
       setErrors({});
     }
   };
@@ -138,6 +148,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmploy
                 variant="contained"
                 startIcon={<AddIcon />}
                 onClick={() => setIsAddDialogOpen(true)}
+                disabled={isPaused}
                 fullWidth
               >
                 Add Employee
@@ -222,6 +233,18 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmploy
               inputProps={{ min: 0, step: 0.01 }}
             />
 
+            <TextField
+              label="Tax Rate (%)"
+              fullWidth
+              value={formData.taxRate}
+              onChange={(e) => handleInputChange('taxRate', e.target.value)}
+              error={!!errors.taxRate}
+              helperText={errors.taxRate || 'Withholding rate applied to each payment'}
+              margin="normal"
+              type="number"
+              inputProps={{ min: 0, max: PAYROLL_CONSTANTS.MAX_TAX_RATE_PERCENT, step: 0.01 }}
+            />
+
             <Alert severity="info" sx={{ mt: 2 }}>
               The salary amount will be encrypted using Fully Homomorphic Encryption (FHE) 
               before being stored on the blockchain. Only the employee will be able to decrypt 
@@ -239,7 +262,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ onEmploy
           <Button 
             onClick={handleAddEmployee}
             variant="contained"
-            disabled={isLoading}
+            disabled={isLoading || isPaused}
             startIcon={isLoading ? <CircularProgress size={16} /> : <AddIcon />}
           >
             {isLoading ? 'Adding...' : 'Add Employee'}
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Alert, AlertTitle } from '@mui/material';
+import { useWalletContext } from '../contexts/WalletContext';
+import { usePayrollContract } from '../hooks/usePayrollContract';
+
+export const PauseBanner: React.FC = () => {
+  const { provider, signer } = useWalletContext();
+  const { isPaused } = usePayrollContract(provider || undefined, signer || undefined);
+
+  if (!isPaused) {
+    return null;
+  }
+
+  return (
+    <Alert severity="error" sx={{ mb: 3 }}>
+      <AlertTitle>Payroll is paused</AlertTitle>
+      An emergency pause is in effect. Payroll runs, payments, bonuses, salary updates and
+      hiring are disabled until an administrator resumes the system.
+    </Alert>
+  );
+};
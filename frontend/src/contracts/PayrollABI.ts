@@ -12,7 +12,8 @@ export const PAYROLL_ABI = [
       { "internalType": "address", "name": "employee", "type": "address" },
       { "internalType": "string", "name": "name", "type": "string" },
       { "internalType": "string", "name": "position", "type": "string" },
-      { "internalType": "bytes", "name": "encryptedSalary", "type": "bytes" }
+      { "internalType": "bytes", "name": "encryptedSalary", "type": "bytes" },
+      { "internalType": "bytes", "name": "encryptedTaxRate", "type": "bytes" }
     ],
     "name": "addEmployee",
     "outputs": [],
@@ -141,6 +142,15 @@ export const PAYROLL_ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "paused",
+    "outputs": [
+      { "internalType": "bool", "name": "", "type": "bool" }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -176,5 +186,21 @@ export const PAYROLL_ABI = [
     ],
     "name": "PayrollProcessed",
     "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": false, "internalType": "address", "name": "account", "type": "address" }
+    ],
+    "name": "Paused",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": false, "internalType": "address", "name": "account", "type": "address" }
+    ],
+    "name": "Unpaused",
+    "type": "event"
   }
 ] as const;
\ No newline at end of file
@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect } from 'react';
 import { ethers } from 'ethers';
 import { PAYROLL_ABI } from '../contracts/PayrollABI';
 import { CONTRACT_ADDRESSES } from '../utils/constants';
+import { percentToBasisPoints } from '../utils/formatters';
 import { UserRole } from '../types';
 import type { Employee, PayrollEntry, ComplianceReport } from '../types';
 import { useEncryption } from './useEncryption';
@@ -11,6 +12,7 @@ export const usePayrollContract = (provider?: ethers.Provider, signer?: ethers.S
   const [contract, setContract] = useState<ethers.Contract | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
   const { encryptValue, decryptValue, canDecryptValue } = useEncryption(provider);
 
   useEffect(() => {
@@ -24,6 +26,25 @@ export const usePayrollContract = (provider?: ethers.Provider, signer?: ethers.S
     }
   }, [provider, signer]);
 
+  // Track the emergency pause so the UI can block actions the contract would reject
+  useEffect(() => {
+    if (!contract) return;
+
+    const onPaused = () => setIsPaused(true);
+    const onUnpaused = () => setIsPaused(false);
+
+    contract.paused()
+      .then((paused: boolean) => setIsPaused(paused))
+      .catch((error: unknown) => console.error('Failed to read pause state:', error));
+    contract.on('Paused', onPaused);
+    contract.on('Unpaused', onUnpaused);
+
+    return () => {
+      contract.off('Paused', onPaused);
+      contract.off('Unpaused', onUnpaused);
+    };
+  }, [contract]);
+
   const handleContractCall = async <T,>(
     operation: string,
     contractCall: () => Promise<T>
@@ -57,7 +78,8 @@ export const usePayrollContract = (provider?: ethers.Provider, signer?: ethers.S
     employeeAddress: string,
     name: string,
     position: string,
-    salaryInCents: number
+    salaryInCents: number,
+    taxRatePercent: number
   ): Promise<boolean> => {
     if (!signer) {
       toast.error('Signer required for transactions');
@@ -66,7 +88,9 @@ export const usePayrollContract = (provider?: ethers.Provider, signer?: ethers.S
 
     const result = await handleContractCall('Add Employee', async () => {
       const encryptedSalary = await encryptValue(salaryInCents);
-      const tx = await contract!.addEmployee(employeeAddress, name, position, encryptedSalary);
+      // The contract expects tax rates in basis points (25% -> 2500)
+      const encryptedTaxRate = await encryptValue(percentToBasisPoints(taxRatePercent));
+      const tx = await contract!.addEmployee(employeeAddress, name, position, encryptedSalary, encryptedTaxRate);
       await tx.wait();
       return true;
     });
@@ -335,6 +359,7 @@ export const usePayrollContract = (provider?: ethers.Provider, signer?: ethers.S
   return {
     contract,
     isLoading,
+    isPaused,
     error,
     // Employee Management
     addEmployee,
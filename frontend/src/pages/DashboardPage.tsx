@@ -25,6 +25,7 @@ import { Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { useWalletContext } from '../contexts/WalletContext';
 import { useAuthContext } from '../contexts/AuthContext';
 import { useThemeContext } from '../contexts/ThemeContext';
+import { PauseBanner } from '../components/PauseBanner';
 import { formatAddress } from '../utils/formatters';
 import { UserRole } from '../types';
 
@@ -245,6 +246,7 @@ export const DashboardPage: React.FC = () => {
 
       {/* Main Content */}
       <Container maxWidth="xl" sx={{ py: 3 }}>
+        <PauseBanner />
         <Outlet />
       </Container>
     </Box>
@@ -57,6 +57,12 @@ export const ENCRYPTION_CONFIG = {
   MAX_ENCRYPTED_VALUE: BigInt('18446744073709551615'), // 2^64 - 1
 };
 
+// Payroll constants
+export const PAYROLL_CONSTANTS = {
+  BASIS_POINTS: 10_000, // 100% expressed in basis points, as used by the contract
+  MAX_TAX_RATE_PERCENT: 100,
+};
+
 // UI constants
 export const UI_CONSTANTS = {
   ITEMS_PER_PAGE: 10,
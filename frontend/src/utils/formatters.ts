@@ -1,4 +1,5 @@
 import type { EncryptedValue } from '../types';
+import { PAYROLL_CONSTANTS } from './constants';
 
 export const formatCurrency = (amount: number | bigint, currency = 'USD'): string => {
   const numAmount = typeof amount === 'bigint' ? Number(amount) : amount;
@@ -72,6 +73,10 @@ export const formatPercentage = (value: number): string => {
   return `${(value * 100).toFixed(2)}%`;
 };
 
+export const percentToBasisPoints = (percent: number): number => {
+  return Math.round((percent * PAYROLL_CONSTANTS.BASIS_POINTS) / 100);
+};
+
 export const formatNumber = (value: number | bigint): string => {
   const numValue = typeof value === 'bigint' ? Number(value) : value;
   return new Intl.NumberFormat('en-US').format(numValue);
@@ -2,70 +2,280 @@
 pragma solidity ^0.8.24;
 
 import "@fhevm/solidity/lib/FHE.sol";
-import "@openzeppelin/contracts/access/AccessControl.sol";
-import "@openzeppelin/confidential-contracts/token/ConfidentialFungibleToken.sol";
+import "@openzeppelin/contracts/proxy/Proxy.sol";
+import "./PayrollSystemBase.sol";
+import "./PayrollToken.sol";
+import "./interfaces/IsPausable.sol";
+import "./libraries/PayrollPayments.sol";
+import "./libraries/SalaryChanges.sol";
 
 /**
  * @title ConfidentialPayrollSystem
  * @notice Enterprise payroll system with fully encrypted salary management
- * @dev Leverages Zama's FHE for complete payment confidentiality
+ * @dev Leverages Zama's FHE for complete payment confidentiality. One deployment hosts many
+ *      employers; every payroll call acts on the employer the caller belongs to. Accounts that
+ *      are neither an employer nor attached to one act for the primary employer registered at
+ *      deployment, so single-company deployments work without any extra setup.
+ *      Functions not defined here live in PayrollSystemExtension and PayrollComplianceExtension;
+ *      calls to them are delegated and run on this contract's storage, so they are made at this
+ *      address like any other payroll call.
  */
-contract ConfidentialPayrollSystem is AccessControl {
-    bytes32 public constant EMPLOYER_ROLE = keccak256("EMPLOYER_ROLE");
-    bytes32 public constant PAYROLL_ADMIN_ROLE = keccak256("PAYROLL_ADMIN_ROLE");
-    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
-
-    struct EmployeeData {
-        euint64 encryptedSalary;
-        euint64 encryptedBonus;
-        euint64 encryptedTaxRate;
-        euint64 encryptedYTDEarnings;
-        euint64 encryptedYTDTax;
-        uint256 lastPaymentTimestamp;
-        bool isActive;
-    }
-
-    struct PayrollConfig {
-        uint256 payPeriodDays;
-        address paymentToken;
-        address treasuryAddress;
-        euint64 encryptedTotalBudget;
-    }
-
-    mapping(address => EmployeeData) private employees;
-    mapping(uint256 => address[]) private payrollBatches;
-    mapping(address => mapping(uint256 => euint64)) private paymentHistory;
-    
-    PayrollConfig public config;
-    uint256 public currentPayPeriod;
-    uint256 public totalEmployees;
-    
-    event EmployeeAdded(address indexed employee, uint256 timestamp);
+contract ConfidentialPayrollSystem is
+    PayrollSystemBase,
+    Proxy,
+    IsPausable,
+    IPayrollSystem,
+    IPayrollAccessControl
+{
+    using EmployeeRegistry for EmployeeRegistry.Registry;
+    using AuditorGrants for AuditorGrants.Registry;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    uint256 public constant DAYS_PER_YEAR = 365;
+    uint256 public constant SECONDS_PER_YEAR = DAYS_PER_YEAR * 1 days;
+    uint64 public constant BASIS_POINTS = 10_000;
+    uint8 public constant PAYMENT_TYPE_SALARY = PayrollPayments.PAYMENT_TYPE_SALARY;
+    uint8 public constant PAYMENT_TYPE_BONUS = PayrollPayments.PAYMENT_TYPE_BONUS;
+    uint8 public constant PAYMENT_TYPE_ADVANCE = PayrollPayments.PAYMENT_TYPE_ADVANCE;
+    uint8 public constant PAYMENT_FREQUENCY_WEEKLY = 1;
+    uint8 public constant PAYMENT_FREQUENCY_BIWEEKLY = 2;
+    uint8 public constant PAYMENT_FREQUENCY_MONTHLY = 4;
+    uint256 public constant DEFAULT_MIN_COHORT_SIZE = 5;
+    uint256 public constant DEFAULT_SALARY_CHANGE_DELAY = 2 days;
+
+    // Implements the functions this contract delegates
+    address public immutable extension;
+
+    event PayrollConfigured(address indexed employer, address treasury, uint256 payPeriodDays);
+    event SalaryChangeProposed(
+        address indexed employer,
+        uint256 indexed changeId,
+        address indexed employee,
+        address proposer
+    );
+    event PeriodBudgetSet(address indexed employer);
+    event PayrollOperatorAdded(address indexed employer, address indexed operator);
+    event PayrollOperatorRemoved(address indexed employer, address indexed operator);
+    event PaymentFrequencyUpdated(address indexed employee, uint256 payPeriodDays);
+    event PayrollRunStarted(uint256 indexed payPeriod, uint256 employeeCount);
+    event PayrollBatchProcessed(uint256 indexed payPeriod, uint256 fromIndex, uint256 toIndex);
     event PayrollProcessed(uint256 indexed payPeriod, uint256 employeeCount);
     event BonusDistributed(address indexed employee, uint256 timestamp);
     event TaxWithheld(uint256 indexed payPeriod, address indexed taxAuthority);
-    event ComplianceReportGenerated(uint256 indexed period, bytes32 reportHash);
 
     constructor(
         address _paymentToken,
         address _treasury,
-        uint256 _payPeriodDays
+        uint256 _payPeriodDays,
+        address _extension
     ) {
+        require(_extension != address(0), "Invalid extension");
+        
+        extension = _extension;
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(GUARDIAN_ROLE, msg.sender);
         _grantRole(EMPLOYER_ROLE, msg.sender);
         _grantRole(PAYROLL_ADMIN_ROLE, msg.sender);
         
-        config.paymentToken = _paymentToken;
-        config.treasuryAddress = _treasury;
-        config.payPeriodDays = _payPeriodDays;
-        config.encryptedTotalBudget = FHE.asEuint64(0);
+        minCohortSize = DEFAULT_MIN_COHORT_SIZE;
+        primaryEmployer = msg.sender;
+        _registerEmployer(msg.sender, "");
+        _configurePayroll(employers[msg.sender], msg.sender, _paymentToken, _treasury, _payPeriodDays);
+    }
+
+    // ============ Emergency Pause ============
+
+    /**
+     * @notice Halt payroll runs, payments, bonuses, salary updates and roster changes for every employer
+     */
+    function pause() external onlyRole(GUARDIAN_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @notice Resume normal operation after an emergency pause
+     */
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @notice Returns true if the payroll system is paused
+     */
+    function paused() public view override(Pausable, IsPausable) returns (bool) {
+        return super.paused();
+    }
+
+    // ============ Employer Management ============
+
+    /**
+     * @notice Register a new employer with its own roster, treasury and pay periods
+     * @dev The employer starts with the deployment's payment token and pay period and pays from
+     *      its own address until it calls configurePayroll
+     * @param employer Address that administers the employer's payroll
+     * @param companyName Company name (optional)
+     */
+    function registerEmployer(address employer, string calldata companyName) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(employer != address(0), "Invalid employer");
+        require(operatorEmployers[employer] == address(0), "Account belongs to an employer");
+        require(!_holdsGlobalPayrollRole(employer), "Account holds a global payroll role");
+        
+        _registerEmployer(employer, companyName);
+        
+        PayrollConfig storage primaryConfig = employers[primaryEmployer].config;
+        _configurePayroll(
+            employers[employer],
+            employer,
+            primaryConfig.paymentToken,
+            employer,
+            primaryConfig.payPeriodDays
+        );
+    }
+
+    /**
+     * @notice Deactivate an employer, blocking all of its payroll operations
+     * @param employer The employer address to deactivate
+     */
+    function deactivateEmployer(address employer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(employers[employer].isActive, "Employer not active");
+        
+        employers[employer].isActive = false;
+        
+        emit EmployerDeactivated(employer);
     }
 
+    /**
+     * @notice Set the treasury salaries are drawn from and the pay period length
+     * @dev Salaries are paid from the payroll budget the treasury escrows in the payment token,
+     *      and the treasury must make this contract an operator on it. Every employer's
+     *      treasury approves the same contract, so an employer may only name its own account;
+     *      otherwise it could pay its staff out of another employer's treasury.
+     * @param treasury Account that funds the employer's payroll, the caller itself
+     * @param payPeriodDays Length of a pay period in days
+     */
+    function configurePayroll(
+        address treasury,
+        uint256 payPeriodDays
+    ) external onlyEmployerAccount whenNoPayrollRunOpen {
+        require(treasury == msg.sender, "Treasury must be the employer");
+        
+        EmployerState storage state = _activeEmployer();
+        _configurePayroll(state, msg.sender, state.config.paymentToken, treasury, payPeriodDays);
+    }
+
+    /**
+     * @notice Set the most a single payroll run may pay out
+     * @dev Runs refuse payments beyond the budget and add them to the run's shortfall. The budget
+     *      is unlimited until first set.
+     * @param encryptedBudget Encrypted budget per pay period
+     * @param inputProof Cryptographic proof for the encrypted input
+     */
+    function setPeriodBudget(
+        externalEuint64 encryptedBudget,
+        bytes calldata inputProof
+    ) external onlyEmployerAccount whenNoPayrollRunOpen {
+        EmployerState storage state = _activeEmployer();
+        state.config.encryptedPeriodBudget = FHE.fromExternal(encryptedBudget, inputProof);
+        _allowBudget(state, msg.sender);
+        
+        emit PeriodBudgetSet(msg.sender);
+    }
+
+    /**
+     * @notice Attach an account to the caller's payroll as an administrator
+     * @dev The operator holds the payroll roles for the caller's employer only. Accounts of another
+     *      employer and holders of a global payroll role are refused, so an employer can neither
+     *      take over nor redirect another employer's administrators.
+     * @param operator Account allowed to manage employees, run payroll and distribute bonuses
+     */
+    function addPayrollOperator(address operator) external onlyEmployerAccount {
+        require(!employers[operator].isRegistered, "Account is an employer");
+        require(operatorEmployers[operator] == address(0), "Account belongs to an employer");
+        require(!_holdsGlobalPayrollRole(operator), "Account holds a global payroll role");
+        
+        operatorEmployers[operator] = msg.sender;
+        employers[msg.sender].payrollOperators.add(operator);
+        FHE.allow(employers[msg.sender].config.encryptedPeriodBudget, operator);
+        
+        emit PayrollOperatorAdded(msg.sender, operator);
+    }
+
+    /**
+     * @notice Detach a payroll administrator from the caller's payroll
+     * @dev The operator also stops being a salary approver of the caller
+     */
+    function removePayrollOperator(address operator) external onlyEmployerAccount {
+        require(operatorEmployers[operator] == msg.sender, "Not an operator of employer");
+        
+        delete operatorEmployers[operator];
+        employers[msg.sender].payrollOperators.remove(operator);
+        employers[msg.sender].salaryApprovers.remove(operator);
+        
+        emit PayrollOperatorRemoved(msg.sender, operator);
+    }
+
+    /**
+     * @notice Grant an auditor open-ended access to an employer's aggregate reports
+     * @dev Callable by the employer itself or a system admin. Replaces any earlier grant.
+     */
+    function grantAuditorAccess(address auditor, address employer) external {
+        _grantAuditorAccess(auditor, employer, block.timestamp, type(uint256).max, 0, type(uint256).max);
+    }
+
+    /**
+     * @notice Revoke an auditor's access to an employer
+     */
+    function revokeAuditorAccess(address auditor, address employer) external {
+        require(msg.sender == employer || hasRole(DEFAULT_ADMIN_ROLE, msg.sender), "Not authorized for employer");
+        
+        auditorGrants.end(auditor, employer);
+        
+        emit AuditorAccessRevoked(auditor, employer);
+    }
+
+    function _registerEmployer(address employer, string memory companyName) internal {
+        EmployerState storage state = employers[employer];
+        require(!state.isRegistered, "Employer already registered");
+        
+        state.companyName = companyName;
+        state.isRegistered = true;
+        state.isActive = true;
+        state.config.salaryChangeDelay = DEFAULT_SALARY_CHANGE_DELAY;
+        employerList.push(employer);
+        
+        emit EmployerRegistered(employer, companyName);
+    }
+
+    function _configurePayroll(
+        EmployerState storage state,
+        address employer,
+        address paymentToken,
+        address treasury,
+        uint256 payPeriodDays
+    ) internal {
+        require(payPeriodDays > 0 && payPeriodDays <= DAYS_PER_YEAR, "Invalid pay period");
+        require(treasury != address(0), "Invalid treasury");
+        
+        state.config.paymentToken = paymentToken;
+        state.config.treasuryAddress = treasury;
+        state.config.payPeriodDays = payPeriodDays;
+        if (!FHE.isInitialized(state.config.encryptedPeriodBudget)) {
+            state.config.encryptedPeriodBudget = FHE.asEuint64(type(uint64).max);
+            _allowBudget(state, employer);
+        }
+        
+        emit PayrollConfigured(employer, treasury, payPeriodDays);
+    }
+
+    // ============ Employee Management ============
+
     /**
      * @notice Add a new employee with encrypted salary
+     * @dev A rehired employee keeps what their removal could not pay, and what they still owed of
+     *      wage advances; their first salary payment settles both
      * @param employee Address of the employee
      * @param encryptedSalary Encrypted annual salary
-     * @param encryptedTaxRate Encrypted tax rate percentage
+     * @param encryptedTaxRate Encrypted tax rate in basis points (2500 = 25%), capped at 100%
      * @param inputProof Cryptographic proof for the encrypted inputs
      */
     function addEmployee(
@@ -73,210 +283,536 @@ contract ConfidentialPayrollSystem is AccessControl {
         externalEuint64 encryptedSalary,
         externalEuint64 encryptedTaxRate,
         bytes calldata inputProof
-    ) external onlyRole(PAYROLL_ADMIN_ROLE) {
-        require(!employees[employee].isActive, "Employee already exists");
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused whenNoPayrollRunOpen returns (bytes32 employeeId) {
+        EmployerState storage state = _activeEmployer();
+        EmployeeData storage data = state.employees[employee];
+        require(!data.isActive, "Employee already exists");
         
         euint64 salary = FHE.fromExternal(encryptedSalary, inputProof);
-        euint64 taxRate = FHE.fromExternal(encryptedTaxRate, inputProof);
+        euint64 taxRate = FHE.min(FHE.fromExternal(encryptedTaxRate, inputProof), BASIS_POINTS);
         
-        employees[employee] = EmployeeData({
+        // A fresh identifier per hire, so a rehired employee gets a new one
+        employeeId = keccak256(abi.encode(address(this), employee, employeeIdNonce++));
+        employeeRefs[employeeId] = EmployeeRef({employer: _employerOf(msg.sender), employee: employee});
+        
+        state.employees[employee] = EmployeeData({
+            employeeId: employeeId,
             encryptedSalary: salary,
-            encryptedBonus: FHE.asEuint64(0),
+            encryptedBonus: _arrearsOf(data.encryptedBonus),
+            encryptedBonusTax: _arrearsOf(data.encryptedBonusTax),
             encryptedTaxRate: taxRate,
+            encryptedAnnualTax: PayrollPayments.calculateWithholding(salary, taxRate),
             encryptedYTDEarnings: FHE.asEuint64(0),
             encryptedYTDTax: FHE.asEuint64(0),
+            encryptedRoundingRemainder: FHE.asEuint64(0),
+            encryptedTaxRoundingRemainder: FHE.asEuint64(0),
+            encryptedAdvance: _arrearsOf(data.encryptedAdvance),
+            encryptedReimbursement: _arrearsOf(data.encryptedReimbursement),
+            startDate: block.timestamp,
             lastPaymentTimestamp: block.timestamp,
+            payPeriodDays: state.config.payPeriodDays,
+            paymentFrequency: _paymentFrequencyOf(state.config.payPeriodDays),
+            isStreaming: false,
             isActive: true
         });
         
-        // Update total budget (encrypted)
-        config.encryptedTotalBudget = FHE.add(config.encryptedTotalBudget, salary);
-        
         // Allow contract to operate on employee data
         FHE.allowThis(salary);
         FHE.allowThis(taxRate);
+        FHE.allowThis(data.encryptedBonus);
+        FHE.allowThis(data.encryptedBonusTax);
+        FHE.allowThis(data.encryptedAnnualTax);
+        FHE.allowThis(data.encryptedYTDEarnings);
+        FHE.allowThis(data.encryptedYTDTax);
+        FHE.allowThis(data.encryptedRoundingRemainder);
+        FHE.allowThis(data.encryptedTaxRoundingRemainder);
+        FHE.allowThis(data.encryptedAdvance);
+        FHE.allowThis(data.encryptedReimbursement);
         
         // Allow employee to view their own salary (optional)
         FHE.allow(salary, employee);
         
-        totalEmployees++;
+        state.employeeRegistry.add(employee);
         emit EmployeeAdded(employee, block.timestamp);
     }
 
     /**
-     * @notice Process payroll for all active employees
-     * @dev Calculates net pay with tax withholding, all operations on encrypted data
+     * @notice Remove an employee from the payroll roster
+     * @dev The employee is settled with a final payment of the salary accrued so far, the pending
+     *      bonus and approved reimbursements, from which outstanding wage advances are recovered.
+     *      Pay the treasury cannot cover, and advances the final net pay cannot, stay recorded on
+     *      the employee and are settled if they are rehired. Deductions, payout destinations and
+     *      the salary band are cleared, and historical YTD figures are kept, but the employee is no
+     *      longer paid or reported on. Salary changes proposed for the employee lapse, even if they
+     *      are rehired.
+     * @param employee Address of the employee
      */
-    function processPayroll() external onlyRole(PAYROLL_ADMIN_ROLE) {
-        currentPayPeriod++;
-        uint256 processedCount = 0;
+    function removeEmployee(
+        address employee
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused whenNoPayrollRunOpen {
+        EmployerState storage state = _activeEmployer();
+        require(state.employees[employee].isActive, "Employee not found");
         
-        // Get payment token contract
-        ConfidentialFungibleToken paymentToken = ConfidentialFungibleToken(config.paymentToken);
+        bytes32 paymentId = PayrollPayments.paySalary(state, taxBrackets[_useActiveTaxYear()], employee);
+        _salaryPaid(state, employee, paymentId);
         
-        // Process each employee
-        for (uint256 i = 0; i < totalEmployees; i++) {
-            address employeeAddr = getEmployeeByIndex(i);
-            EmployeeData storage employee = employees[employeeAddr];
-            
-            if (!employee.isActive) continue;
-            
-            // Calculate pay period salary (annual / periods per year)
-            // Calculate pay period salary (simplified for FHEVM)
-            // In production, use proper FHE division when available
-            euint64 periodSalary = employee.encryptedSalary;
-            
-            // Add any bonuses
-            euint64 grossPay = FHE.add(periodSalary, employee.encryptedBonus);
-            
-            // Calculate tax withholding
-            // Calculate tax (simplified for FHEVM)
-            // In production, use proper FHE division when available  
-            euint64 taxAmount = FHE.mul(grossPay, employee.encryptedTaxRate);
-            
-            // Calculate net pay
-            euint64 netPay = FHE.sub(grossPay, taxAmount);
-            
-            // Update year-to-date values
-            employee.encryptedYTDEarnings = FHE.add(employee.encryptedYTDEarnings, grossPay);
-            employee.encryptedYTDTax = FHE.add(employee.encryptedYTDTax, taxAmount);
-            
-            // Store payment history
-            paymentHistory[employeeAddr][currentPayPeriod] = netPay;
-            
-            // Transfer encrypted payment to employee
-            _transferConfidentialPayment(employeeAddr, netPay);
-            
-            // Reset bonus after payment
-            employee.encryptedBonus = FHE.asEuint64(0);
-            employee.lastPaymentTimestamp = block.timestamp;
+        for (uint256 i = 0; i < state.deductionTypes.length; i++) {
+            state.deductions[employee][i] = euint64.wrap(0);
+        }
+        delete state.payoutDestinations[employee];
+        delete state.salaryBandOf[employee];
+        
+        state.employees[employee].isActive = false;
+        state.employeeRegistry.remove(employee);
+        
+        emit EmployeeRemoved(employee, block.timestamp);
+    }
+
+    /**
+     * @dev What a removed employee is still owed or owes on one account, zero for a first hire
+     */
+    function _arrearsOf(euint64 value) private returns (euint64) {
+        return FHE.isInitialized(value) ? value : FHE.asEuint64(0);
+    }
+
+    /**
+     * @notice Change how often an employee is paid
+     * @dev Takes effect from the employee's next payment; new hires follow the employer's pay period
+     * @param employee Address of the employee
+     * @param paymentFrequency PAYMENT_FREQUENCY_WEEKLY, PAYMENT_FREQUENCY_BIWEEKLY or PAYMENT_FREQUENCY_MONTHLY
+     */
+    function setPaymentFrequency(
+        address employee,
+        uint8 paymentFrequency
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNoPayrollRunOpen {
+        EmployeeData storage data = _activeEmployer().employees[employee];
+        require(data.isActive, "Employee not found");
+        
+        uint256 payPeriodDays;
+        if (paymentFrequency == PAYMENT_FREQUENCY_WEEKLY) {
+            payPeriodDays = 7;
+        } else if (paymentFrequency == PAYMENT_FREQUENCY_BIWEEKLY) {
+            payPeriodDays = 14;
+        } else if (paymentFrequency == PAYMENT_FREQUENCY_MONTHLY) {
+            payPeriodDays = 30; // pay accrues per calendar day, so the leftover days roll into the next period
+        } else {
+            revert("Invalid payment frequency");
+        }
+        data.payPeriodDays = payPeriodDays;
+        data.paymentFrequency = paymentFrequency;
+        
+        emit PaymentFrequencyUpdated(employee, payPeriodDays);
+    }
+
+    function _paymentFrequencyOf(uint256 payPeriodDays) internal pure returns (uint8) {
+        if (payPeriodDays == 7) return PAYMENT_FREQUENCY_WEEKLY;
+        if (payPeriodDays == 14) return PAYMENT_FREQUENCY_BIWEEKLY;
+        if (payPeriodDays == 30) return PAYMENT_FREQUENCY_MONTHLY;
+        return 0;
+    }
+
+    // ============ Payroll Runs ============
+
+    /**
+     * @notice Pay every employee whose pay period has elapsed, in a single transaction
+     * @dev Convenience wrapper around a payroll run for small rosters; large rosters
+     *      should use startPayrollRun / processPayrollBatch / finalizePayrollRun
+     */
+    function processPayroll() external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused {
+        EmployerState storage state = _activeEmployer();
+        _startPayrollRun(state);
+        _processPayrollBatch(state, type(uint256).max);
+        _finalizePayrollRun(state);
+    }
+
+    /**
+     * @notice Open the payroll run for the next pay period
+     * @dev Snapshots the roster size; employees cannot be added or removed until the run is finalized
+     */
+    function startPayrollRun() external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused {
+        _startPayrollRun(_activeEmployer());
+    }
+
+    /**
+     * @notice Pay the next batch of employees in the open payroll run
+     * @dev Employees still within their pay period are skipped and paid by a later run
+     * @param batchSize Maximum number of employees to process in this transaction
+     * @return remaining Number of employees still to be processed
+     */
+    function processPayrollBatch(
+        uint256 batchSize
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused returns (uint256 remaining) {
+        return _processPayrollBatch(_activeEmployer(), batchSize);
+    }
+
+    /**
+     * @notice Close the open payroll run once every employee has been settled
+     */
+    function finalizePayrollRun() external onlyPayrollRole(PAYROLL_ADMIN_ROLE) {
+        _finalizePayrollRun(_activeEmployer());
+    }
+
+    function _startPayrollRun(EmployerState storage state) internal {
+        require(!isPayrollRunOpen(), "Payroll run in progress");
+        
+        state.currentPayPeriod++;
+        PayrollRun storage run = state.payrollRuns[state.currentPayPeriod];
+        require(run.startedAt == 0, "Payroll run already started");
+        
+        run.employeeCount = state.employeeRegistry.length();
+        run.startedAt = block.timestamp;
+        run.taxYear = _useActiveTaxYear();
+        
+        // Snapshot the treasury's escrowed budget so the run's total can be checked against what it held
+        run.encryptedTreasuryBalance = PayrollToken(state.config.paymentToken).treasuryBudgetOf(
+            state.config.treasuryAddress
+        );
+        run.encryptedTotal = FHE.asEuint64(0);
+        run.encryptedShortfall = FHE.asEuint64(0);
+        FHE.allowThis(run.encryptedTreasuryBalance);
+        FHE.allowThis(run.encryptedTotal);
+        FHE.allowThis(run.encryptedShortfall);
+        
+        emit PayrollRunStarted(state.currentPayPeriod, run.employeeCount);
+    }
+
+    function _processPayrollBatch(EmployerState storage state, uint256 batchSize) internal returns (uint256 remaining) {
+        require(isPayrollRunOpen(), "No payroll run in progress");
+        require(batchSize > 0, "Batch size must be positive");
+        
+        uint256 payPeriod = state.currentPayPeriod;
+        PayrollRun storage run = state.payrollRuns[payPeriod];
+        uint256 fromIndex = run.cursor;
+        uint256 toIndex = run.employeeCount - fromIndex > batchSize
+            ? fromIndex + batchSize
+            : run.employeeCount;
+        
+        for (uint256 i = fromIndex; i < toIndex; i++) {
+            address employeeAddr = state.employeeRegistry.at(i);
+            // Employees on a longer pay cycle wait for a later run
+            if (!_isPaymentEligible(state.employees[employeeAddr])) continue;
             
-            processedCount++;
+            (bytes32 paymentId, ebool paid) = PayrollPayments.payRunEmployee(
+                state,
+                run,
+                taxBrackets[run.taxYear],
+                employeeAddr
+            );
+            state.paymentStatus[employeeAddr][payPeriod] = paid;
+            run.processedCount++;
+            _salaryPaid(state, employeeAddr, paymentId);
         }
         
-        emit PayrollProcessed(currentPayPeriod, processedCount);
+        run.cursor = toIndex;
+        
+        emit PayrollBatchProcessed(payPeriod, fromIndex, toIndex);
+        return run.employeeCount - toIndex;
+    }
+
+    function _finalizePayrollRun(EmployerState storage state) internal {
+        require(isPayrollRunOpen(), "No payroll run in progress");
+        
+        PayrollRun storage run = state.payrollRuns[state.currentPayPeriod];
+        require(run.cursor == run.employeeCount, "Payroll run incomplete");
+        
+        run.finalizedAt = block.timestamp;
+        
+        // Let the employer's admins see what the run paid out and what it had to refuse
+        address employer = _employerOf(msg.sender);
+        FHE.allow(run.encryptedTotal, employer);
+        FHE.allow(run.encryptedShortfall, employer);
+        FHE.allow(run.encryptedTotal, msg.sender);
+        FHE.allow(run.encryptedShortfall, msg.sender);
+        
+        emit PayrollProcessed(state.currentPayPeriod, run.processedCount);
     }
 
+    // ============ Payments ============
+
     /**
-     * @notice Distribute performance bonus to employee
+     * @notice Pay the salary accrued since an employee's last payment, outside a payroll run
+     * @dev Accrual is time based, so the next payroll run only pays what accrued after this payment
      * @param employee Address of the employee
-     * @param encryptedBonus Encrypted bonus amount
+     * @return paymentId The unique identifier for this payment
+     */
+    function processSalaryPayment(
+        address employee
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused returns (bytes32 paymentId) {
+        EmployerState storage state = _activeEmployer();
+        require(state.employees[employee].isActive, "Employee not found");
+        
+        paymentId = PayrollPayments.paySalary(state, taxBrackets[_useActiveTaxYear()], employee);
+        _salaryPaid(state, employee, paymentId);
+    }
+
+    /**
+     * @notice Pay a bonus immediately instead of adding it to the next payroll run
+     * @param employee Address of the employee
+     * @param encryptedBonusAmount Encrypted gross bonus amount
      * @param inputProof Proof for encrypted input
+     * @return paymentId The unique identifier for this payment
      */
-    function distributeBonus(
+    function processBonusPayment(
         address employee,
-        externalEuint64 encryptedBonus,
+        externalEuint64 encryptedBonusAmount,
         bytes calldata inputProof
-    ) external onlyRole(EMPLOYER_ROLE) {
-        require(employees[employee].isActive, "Employee not found");
+    ) external onlyPayrollRole(EMPLOYER_ROLE) whenNotPaused returns (bytes32 paymentId) {
+        EmployerState storage state = _activeEmployer();
+        require(state.employees[employee].isActive, "Employee not found");
         
-        euint64 bonus = FHE.fromExternal(encryptedBonus, inputProof);
-        employees[employee].encryptedBonus = FHE.add(
-            employees[employee].encryptedBonus,
-            bonus
-        );
-        
-        FHE.allowThis(employees[employee].encryptedBonus);
+        euint64 bonus = FHE.fromExternal(encryptedBonusAmount, inputProof);
         
-        emit BonusDistributed(employee, block.timestamp);
+        paymentId = PayrollPayments.payBonus(state, taxBrackets[_useActiveTaxYear()], employee, bonus);
+        _salaryPaid(state, employee, paymentId);
     }
 
+    // ============ Bonuses, Reports and Salary Updates ============
+
     /**
-     * @notice Generate compliance report without revealing individual data
-     * @dev Creates zero-knowledge proof of compliance
+     * @notice Distribute performance bonus to employee
+     * @param employee Address of the employee
+     * @param encryptedBonus Encrypted bonus amount
+     * @param inputProof Proof for encrypted input
      */
-    function generateComplianceReport() external onlyRole(AUDITOR_ROLE) returns (bytes32) {
-        euint64 totalPaid = FHE.asEuint64(0);
-        euint64 totalTax = FHE.asEuint64(0);
+    function distributeBonus(
+        address employee,
+        externalEuint64 encryptedBonus,
+        bytes calldata inputProof
+    ) external onlyPayrollRole(EMPLOYER_ROLE) whenNotPaused {
+        EmployeeData storage data = _activeEmployer().employees[employee];
+        require(data.isActive, "Employee not found");
         
-        // Aggregate encrypted values
-        for (uint256 i = 0; i < totalEmployees; i++) {
-            address employeeAddr = getEmployeeByIndex(i);
-            EmployeeData storage employee = employees[employeeAddr];
-            
-            if (employee.isActive) {
-                totalPaid = FHE.add(totalPaid, employee.encryptedYTDEarnings);
-                totalTax = FHE.add(totalTax, employee.encryptedYTDTax);
-            }
-        }
+        euint64 bonus = FHE.fromExternal(encryptedBonus, inputProof);
+        data.encryptedBonus = FHE.add(data.encryptedBonus, bonus);
         
-        // Create report hash without revealing values
-        bytes32 reportHash = keccak256(abi.encodePacked(
-            currentPayPeriod,
-            totalEmployees,
-            block.timestamp
-        ));
+        // Withheld with the next salary payment at the employee's flat rate
+        data.encryptedBonusTax = FHE.add(
+            data.encryptedBonusTax,
+            PayrollPayments.calculateWithholding(bonus, data.encryptedTaxRate)
+        );
         
-        // Allow auditor to decrypt aggregated values only
-        FHE.allow(totalPaid, msg.sender);
-        FHE.allow(totalTax, msg.sender);
+        FHE.allowThis(data.encryptedBonus);
+        FHE.allowThis(data.encryptedBonusTax);
         
-        emit ComplianceReportGenerated(currentPayPeriod, reportHash);
-        return reportHash;
+        emit BonusDistributed(employee, block.timestamp);
     }
 
     /**
-     * @notice Update employee salary (encrypted)
+     * @notice Propose a new salary for an employee (encrypted)
+     * @dev The change needs approval by a salary approver other than the proposer and takes effect
+     *      once the employer's salary change delay has passed since the approval
      * @param employee Address of the employee
      * @param newEncryptedSalary New encrypted salary
      * @param inputProof Proof for encrypted input
+     * @return changeId Identifier of the proposed change
      */
-    function updateSalary(
+    function proposeSalaryChange(
         address employee,
         externalEuint64 newEncryptedSalary,
         bytes calldata inputProof
-    ) external onlyRole(PAYROLL_ADMIN_ROLE) {
-        require(employees[employee].isActive, "Employee not found");
-        
-        euint64 oldSalary = employees[employee].encryptedSalary;
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused returns (uint256 changeId) {
         euint64 newSalary = FHE.fromExternal(newEncryptedSalary, inputProof);
+        changeId = SalaryChanges.propose(_activeEmployer(), employee, newSalary);
         
-        // Update budget
-        config.encryptedTotalBudget = FHE.sub(config.encryptedTotalBudget, oldSalary);
-        config.encryptedTotalBudget = FHE.add(config.encryptedTotalBudget, newSalary);
-        
-        employees[employee].encryptedSalary = newSalary;
+        emit SalaryChangeProposed(_employerOf(msg.sender), changeId, employee, msg.sender);
+    }
+
+    // ============ Views ============
+    // Unless an employer is passed explicitly, views answer for the caller's employer
+
+    /**
+     * @notice Payroll configuration of an employer
+     */
+    function getEmployerConfig(address employer) external view returns (PayrollConfig memory) {
+        return employers[employer].config;
+    }
+
+    /**
+     * @notice Employer an account acts for
+     */
+    function employerOf(address account) external view returns (address) {
+        return _employerOf(account);
+    }
+
+    /**
+     * @notice Payroll run of an employer for a pay period
+     */
+    function payrollRuns(address employer, uint256 payPeriod) external view returns (PayrollRun memory) {
+        return employers[employer].payrollRuns[payPeriod];
+    }
+
+    /**
+     * @notice Get an employer's active employee address by index
+     * @dev Indexes shift when employees are removed (swap-and-pop)
+     */
+    function getEmployeeByIndex(address employer, uint256 index) external view returns (address) {
+        return employers[employer].employeeRegistry.at(index);
+    }
+
+    /**
+     * @notice Get the current roster index of an active employee of an employer
+     */
+    function getEmployeeIndex(address account, address employer) external view returns (uint256) {
+        return employers[employer].employeeRegistry.indexOf(account);
+    }
+
+    /**
+     * @notice List an employer's active employees page by page
+     * @param employer The employer address
+     * @param offset Index of the first employee to return
+     * @param limit Maximum number of employees to return
+     */
+    function getEmployees(address employer, uint256 offset, uint256 limit) external view returns (address[] memory) {
+        return employers[employer].employeeRegistry.slice(offset, limit);
+    }
+
+    /**
+     * @notice Number of active employees on an employer's roster
+     */
+    function totalEmployees(address employer) external view returns (uint256) {
+        return employers[employer].employeeRegistry.length();
+    }
+
+    /**
+     * @notice Get the encrypted outcome of an employee's payment for a pay period
+     * @dev Decryptable by the employee and by the admin who processed the payment
+     */
+    function getPaymentStatus(address employee, uint256 payPeriod, address employer) external view returns (ebool) {
+        return employers[employer].paymentStatus[employee][payPeriod];
+    }
+
+    /**
+     * @notice Get employee information
+     * @dev Encrypted fields are only decryptable by parties the ACL allows
+     */
+    function getEmployee(address employee, address employer) external view returns (Employee memory) {
+        EmployeeData storage data = employers[employer].employees[employee];
+        require(data.employeeId != bytes32(0), "Employee not found");
         
-        FHE.allowThis(newSalary);
-        FHE.allow(newSalary, employee);
+        return Employee({
+            employeeId: data.employeeId,
+            employeeAddress: employee,
+            encryptedSalary: data.encryptedSalary,
+            encryptedBonus: data.encryptedBonus,
+            paymentFrequency: data.paymentFrequency,
+            isActive: data.isActive,
+            startDate: data.startDate,
+            lastPaymentDate: data.lastPaymentTimestamp
+        });
+    }
+
+    /**
+     * @notice Get an employee's encrypted annual salary
+     */
+    function getEmployeeSalary(address employee, address employer) external view returns (euint64) {
+        return employers[employer].employees[employee].encryptedSalary;
+    }
+
+    /**
+     * @notice Resolve an employee identifier to the employee wallet
+     */
+    function getEmployeeAddress(bytes32 employeeId) external view returns (address) {
+        return employeeRefs[employeeId].employee;
     }
 
     /**
-     * @notice Internal function to transfer encrypted payment
-     * @param to Recipient address
-     * @param encryptedAmount Encrypted amount to transfer
+     * @notice Check if the next payroll run pays the employee
+     * @dev True once a full pay period has elapsed since they were last paid, unless their salary is streamed
      */
-    function _transferConfidentialPayment(address to, euint64 encryptedAmount) internal {
-        // Integration with ConfidentialFungibleToken
-        ConfidentialFungibleToken token = ConfidentialFungibleToken(config.paymentToken);
+    function isPaymentEligible(address employee, address employer) external view returns (bool) {
+        return _isPaymentEligible(employers[employer].employees[employee]);
+    }
+
+    function _isPaymentEligible(EmployeeData storage employee) internal view returns (bool) {
+        return employee.isActive
+            && !employee.isStreaming
+            && block.timestamp >= employee.lastPaymentTimestamp + employee.payPeriodDays * 1 days;
+    }
+
+    /**
+     * @notice Get the most recent payments of an employee, oldest first
+     * @param employee Address of the employee
+     * @param limit Maximum number of records to return
+     * @param employer The employer that paid the employee
+     */
+    function getPaymentHistory(
+        address employee,
+        uint256 limit,
+        address employer
+    ) external view returns (PaymentRecord[] memory payments) {
+        PaymentRecord[] storage history = employers[employer].paymentHistory[employee];
+        uint256 count = limit < history.length ? limit : history.length;
+        uint256 offset = history.length - count;
         
-        // Transfer from treasury to employee
-        // Note: This assumes the treasury has approved this contract
-        // In production, implement proper treasury management
+        payments = new PaymentRecord[](count);
+        for (uint256 i = 0; i < count; i++) {
+            payments[i] = history[offset + i];
+        }
+    }
+
+    /**
+     * @notice Check if address is an active employee of a specific employer
+     */
+    function isEmployee(address account, address employer) external view returns (bool) {
+        return employers[employer].employees[account].isActive;
+    }
+
+    /**
+     * @notice Check if address is a registered, active employer
+     */
+    function isEmployer(address account) external view returns (bool) {
+        return employers[account].isActive;
+    }
+
+    /**
+     * @notice Check if address may audit an employer
+     */
+    function hasAuditorAccess(address account, address employer) external view returns (bool) {
+        return _hasAuditorAccess(account, employer);
+    }
+
+    /**
+     * @notice Check if the caller may access an employee's data at an employer
+     * @dev True for the employer and its payroll operators, its auditors and the employee
+     */
+    function canAccessEmployeeData(bytes32 employeeId, address employer) external view returns (bool) {
+        EmployeeRef storage ref = employeeRefs[employeeId];
+        if (ref.employer != employer || !employers[employer].isActive) return false;
         
-        FHE.allow(encryptedAmount, config.paymentToken);
+        return msg.sender == ref.employee
+            || _hasAuditorAccess(msg.sender, employer)
+            || (_employerOf(msg.sender) == employer && _hasPayrollRole(PAYROLL_ADMIN_ROLE, msg.sender));
     }
 
     /**
-     * @notice Get employee address by index (helper function)
+     * @notice Get all registered employers
      */
-    function getEmployeeByIndex(uint256 index) internal view returns (address) {
-        // In production, implement proper employee indexing
-        // This is a placeholder for the example
-        return address(0);
+    function getAllEmployers() external view returns (address[] memory) {
+        return employerList;
     }
 
     /**
-     * @notice Check if address is an active employee
+     * @notice Get company name for an employer
      */
-    function isEmployee(address account) external view returns (bool) {
-        return employees[account].isActive;
+    function getCompanyName(address employer) external view returns (string memory) {
+        return employers[employer].companyName;
     }
 
     /**
-     * @notice Get current pay period number
+     * @notice Number of full pay periods in a year for an employer
      */
-    function getCurrentPayPeriod() external view returns (uint256) {
-        return currentPayPeriod;
+    function periodsPerYear(address employer) external view returns (uint256) {
+        return DAYS_PER_YEAR / employers[employer].config.payPeriodDays;
+    }
+
+    /**
+     * @notice Get current pay period number of an employer
+     */
+    function getCurrentPayPeriod(address employer) external view returns (uint256) {
+        return employers[employer].currentPayPeriod;
+    }
+
+    function _implementation() internal view override returns (address) {
+        return extension;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,396 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "./PayrollSystemBase.sol";
+import "./libraries/ComplianceReports.sol";
+
+/**
+ * @title PayrollComplianceExtension
+ * @notice Scoped auditor grants, compliance reports and salary compliance checks of the
+ *         confidential payroll system
+ * @dev Reached from ConfidentialPayrollSystem through PayrollSystemExtension, which forwards the
+ *      calls it does not define here by delegatecall. Always call these functions at the payroll
+ *      system's address; called directly, the extension only sees its own, empty storage.
+ */
+contract PayrollComplianceExtension is PayrollSystemBase {
+    using EmployeeRegistry for EmployeeRegistry.Registry;
+    using AuditorGrants for AuditorGrants.Registry;
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    event MinimumSalarySet(address indexed employer, uint64 minimumSalary);
+    event SalaryBandAdded(address indexed employer, uint256 indexed bandId, string name);
+    event EmployeeSalaryBandSet(address indexed employee, uint256 indexed bandId);
+    event SalaryComplianceChecked(address indexed employer, address indexed auditor, uint256 employeeCount);
+    event ComplianceReportGenerated(uint256 indexed period, bytes32 reportHash);
+    event SalaryStatisticsGenerated(address indexed employer, address indexed auditor, uint256 employeeCount);
+    event MinCohortSizeSet(address indexed admin, uint256 previousSize, uint256 newSize);
+    event ComplianceReportAccessGranted(address indexed employer, uint256 indexed reportId, address indexed auditor);
+    event ComplianceTotalsDecryptionRequested(address indexed employer, uint256 indexed reportId, uint256 requestId);
+    event ComplianceTotalsPublished(
+        address indexed employer,
+        uint256 indexed reportId,
+        uint64 totalPaid,
+        uint64 totalTax,
+        bytes32 reportHash
+    );
+
+    // ============ Auditor Grants ============
+
+    /**
+     * @notice Grant an auditor access to an employer for a limited time and range of pay periods
+     * @dev Callable by the employer itself or a system admin. Replaces any earlier grant; access
+     *      lapses by itself at `expiresAt`.
+     * @param auditor Auditor to grant access to
+     * @param employer Employer the auditor may report on
+     * @param startsAt Timestamp the access starts at
+     * @param expiresAt Timestamp the access lapses at
+     * @param fromPeriod First pay period the auditor may report on
+     * @param toPeriod Last pay period the auditor may report on
+     * @return grantId Identifier of the grant
+     */
+    function grantScopedAuditorAccess(
+        address auditor,
+        address employer,
+        uint256 startsAt,
+        uint256 expiresAt,
+        uint256 fromPeriod,
+        uint256 toPeriod
+    ) external returns (uint256 grantId) {
+        return _grantAuditorAccess(auditor, employer, startsAt, expiresAt, fromPeriod, toPeriod);
+    }
+
+    /**
+     * @notice Check if an auditor may report on a pay period of an employer right now
+     */
+    function hasAuditorAccessForPeriod(
+        address account,
+        address employer,
+        uint256 payPeriod
+    ) external view returns (bool) {
+        return _hasAuditorAccess(account, employer) && auditorGrants.covers(account, employer, payPeriod);
+    }
+
+    /**
+     * @notice An auditor grant, including revoked, replaced and expired ones
+     */
+    function getAuditorGrant(uint256 grantId) external view returns (AuditorGrants.Grant memory) {
+        require(grantId < auditorGrants.grants.length, "Grant not found");
+        return auditorGrants.grants[grantId];
+    }
+
+    /**
+     * @notice Number of auditor grants ever made
+     */
+    function getAuditorGrantCount() external view returns (uint256) {
+        return auditorGrants.grants.length;
+    }
+
+    /**
+     * @notice Ids of the auditor grants in effect right now
+     * @dev Excludes revoked, replaced and expired grants and those that have not started yet
+     */
+    function getActiveAuditorGrants() external view returns (uint256[] memory grantIds) {
+        uint256 liveCount = auditorGrants.live.length();
+        uint256 activeCount = 0;
+        for (uint256 i = 0; i < liveCount; i++) {
+            if (_isGrantActive(auditorGrants.live.at(i))) activeCount++;
+        }
+        
+        grantIds = new uint256[](activeCount);
+        uint256 next = 0;
+        for (uint256 i = 0; i < liveCount; i++) {
+            uint256 grantId = auditorGrants.live.at(i);
+            if (_isGrantActive(grantId)) grantIds[next++] = grantId;
+        }
+    }
+
+    function _isGrantActive(uint256 grantId) internal view returns (bool) {
+        return auditorGrants.isGrantInEffect(grantId) && employers[auditorGrants.grants[grantId].employer].isActive;
+    }
+
+    // ============ Compliance Reports ============
+
+    /**
+     * @notice Generate compliance report without revealing individual data
+     * @dev Creates zero-knowledge proof of compliance. The report is stored under the next report
+     *      id, so its totals can be published later with requestComplianceTotalsDecryption.
+     * @param employer Employer to report on; the caller needs auditor access to it
+     */
+    function generateComplianceReport(
+        address employer
+    ) external onlyRole(AUDITOR_ROLE) onlyAuditorOf(employer) returns (bytes32) {
+        EmployerState storage state = employers[employer];
+        _requireAuditorPeriod(msg.sender, employer, state.currentPayPeriod);
+        _requireCohortSize(state.employeeRegistry.length());
+        
+        bytes32 reportHash = ComplianceReports.generate(state, employer);
+        
+        emit ComplianceReportGenerated(state.currentPayPeriod, reportHash);
+        return reportHash;
+    }
+
+    /**
+     * @notice Compute encrypted salary statistics over the employer's active employees
+     * @dev The average divides the encrypted total by the plaintext employee count, rounding down.
+     *      Only the caller can decrypt the results, which replace its previous statistics.
+     * @param employer Employer to report on; the caller needs auditor access to it
+     */
+    function generateSalaryStatistics(address employer) external onlyRole(AUDITOR_ROLE) onlyAuditorOf(employer) {
+        EmployerState storage state = employers[employer];
+        _requireAuditorPeriod(msg.sender, employer, state.currentPayPeriod);
+        _requireCohortSize(state.employeeRegistry.length());
+        
+        uint256 employeeCount = ComplianceReports.generateStatistics(state);
+        
+        emit SalaryStatisticsGenerated(employer, msg.sender, employeeCount);
+    }
+
+    /**
+     * @notice Let another auditor of the employer decrypt the totals of a stored compliance report
+     * @dev Lets auditors appointed after a report was generated review historical reports
+     * @param employer Employer the report is about
+     * @param reportId Index of the report among the employer's compliance reports
+     * @param auditor Auditor to grant access to; needs auditor access to the employer
+     */
+    function grantComplianceReportAccess(address employer, uint256 reportId, address auditor) external {
+        require(msg.sender == employer || hasRole(DEFAULT_ADMIN_ROLE, msg.sender), "Not authorized for employer");
+        require(_hasAuditorAccess(auditor, employer), "Auditor has no access");
+        ComplianceReport storage report = _complianceReport(employer, reportId);
+        _requireAuditorPeriod(auditor, employer, report.payPeriod);
+        _requireCohortSize(report.employeeCount);
+        
+        FHE.allow(report.encryptedTotalPaid, auditor);
+        FHE.allow(report.encryptedTotalTax, auditor);
+        
+        emit ComplianceReportAccessGranted(employer, reportId, auditor);
+    }
+
+    /**
+     * @notice Ask the decryption oracle to publish the totals of a compliance report
+     * @dev Only the aggregates are decrypted. Once the oracle calls back, the cleartext totals are
+     *      stored with the report and its hash is recomputed to cover them.
+     * @param employer Employer the report is about; the caller needs auditor access to it
+     * @param reportId Index of the report among the employer's compliance reports
+     * @return requestId Identifier of the decryption request
+     */
+    function requestComplianceTotalsDecryption(
+        address employer,
+        uint256 reportId
+    ) external onlyRole(AUDITOR_ROLE) onlyAuditorOf(employer) returns (uint256 requestId) {
+        ComplianceReport storage report = _complianceReport(employer, reportId);
+        require(!report.decryptionRequested, "Decryption already requested");
+        _requireAuditorPeriod(msg.sender, employer, report.payPeriod);
+        _requireCohortSize(report.employeeCount);
+        report.decryptionRequested = true;
+        
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(report.encryptedTotalPaid);
+        cts[1] = FHE.toBytes32(report.encryptedTotalTax);
+        requestId = FHE.requestDecryption(cts, this.publishComplianceTotals.selector);
+        pendingReportDecryptions[requestId] = ReportRef({employer: employer, reportId: reportId});
+        
+        emit ComplianceTotalsDecryptionRequested(employer, reportId, requestId);
+    }
+
+    /**
+     * @notice Decryption oracle callback storing the cleartext totals of a compliance report
+     * @param requestId Identifier of the decryption request
+     * @param cleartexts ABI-encoded decrypted total gross pay and total tax withheld
+     * @param decryptionProof KMS signatures over the decryption result
+     */
+    function publishComplianceTotals(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        (uint64 totalPaid, uint64 totalTax) = abi.decode(cleartexts, (uint64, uint64));
+        
+        ReportRef memory ref = pendingReportDecryptions[requestId];
+        require(ref.employer != address(0), "Unknown decryption request");
+        delete pendingReportDecryptions[requestId];
+        
+        ComplianceReport storage report = employers[ref.employer].complianceReports[ref.reportId];
+        report.totalsPublished = true;
+        report.totalPaid = totalPaid;
+        report.totalTax = totalTax;
+        report.reportHash = ComplianceReports.hash(ref.employer, report);
+        
+        emit ComplianceTotalsPublished(ref.employer, ref.reportId, totalPaid, totalTax, report.reportHash);
+    }
+
+    /**
+     * @notice Set the fewest employees a compliance report or other aggregate may cover
+     * @dev Checked again when a stored report is shared or published, so raising it also holds back
+     *      older reports over smaller cohorts
+     */
+    function setMinCohortSize(uint256 newSize) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newSize > 0, "Invalid cohort size");
+        
+        emit MinCohortSizeSet(msg.sender, minCohortSize, newSize);
+        minCohortSize = newSize;
+    }
+
+    /**
+     * @notice A stored compliance report of an employer
+     * @dev Cleartext totals are only set once published through the decryption oracle
+     */
+    function getComplianceReport(address employer, uint256 reportId) external view returns (ComplianceReport memory) {
+        return _complianceReport(employer, reportId);
+    }
+
+    /**
+     * @notice Number of compliance reports generated for an employer
+     */
+    function getComplianceReportCount(address employer) external view returns (uint256) {
+        return employers[employer].complianceReports.length;
+    }
+
+    /**
+     * @notice Ids of the compliance reports generated for an employer during a pay period
+     */
+    function getComplianceReportsByPeriod(
+        address employer,
+        uint256 payPeriod
+    ) external view returns (uint256[] memory) {
+        return employers[employer].complianceReportsByPeriod[payPeriod];
+    }
+
+    /**
+     * @notice Salary statistics the caller last generated for an employer
+     */
+    function getSalaryStatistics(
+        address employer
+    ) external view onlyAuditorOf(employer) returns (SalaryStatistics memory) {
+        return employers[employer].salaryStatistics[msg.sender];
+    }
+
+    /**
+     * @notice Refuse aggregates over so few employees that they would reveal individual pay
+     * @dev minCohortSize is at least 1, so empty cohorts are refused as well
+     */
+    function _requireCohortSize(uint256 cohortSize) internal view {
+        require(cohortSize >= minCohortSize, "Cohort below anonymity threshold");
+    }
+
+    function _complianceReport(address employer, uint256 reportId) internal view returns (ComplianceReport storage) {
+        require(reportId < employers[employer].complianceReports.length, "Report not found");
+        return employers[employer].complianceReports[reportId];
+    }
+
+    // ============ Salary Compliance ============
+
+    /**
+     * @notice Set the legal minimum annual salary of an employer's employees
+     * @dev Set by a system admin or regulator, never by the employer or an auditor it appointed
+     * @param employer Employer the minimum applies to
+     * @param minimumSalary Minimum annual salary, 0 to stop checking it
+     */
+    function setMinimumSalary(
+        address employer,
+        uint64 minimumSalary
+    ) external onlyComplianceAuthority {
+        require(employers[employer].isActive, "Employer not active");
+        employers[employer].minimumSalary = minimumSalary;
+        
+        emit MinimumSalarySet(employer, minimumSalary);
+    }
+
+    /**
+     * @notice Define a salary grade band of an employer
+     * @dev Set by a system admin or regulator, never by the employer or an auditor it appointed
+     * @param employer Employer the band belongs to
+     * @param name Display name, e.g. "Engineer II"
+     * @param minSalary Lowest annual salary of the band
+     * @param maxSalary Highest annual salary of the band
+     * @return bandId Identifier of the new band
+     */
+    function addSalaryBand(
+        address employer,
+        string calldata name,
+        uint64 minSalary,
+        uint64 maxSalary
+    ) external onlyComplianceAuthority returns (uint256 bandId) {
+        EmployerState storage state = employers[employer];
+        require(state.isActive, "Employer not active");
+        require(minSalary <= maxSalary, "Invalid salary band");
+        
+        bandId = state.salaryBands.length;
+        state.salaryBands.push(SalaryBand({name: name, minSalary: minSalary, maxSalary: maxSalary}));
+        
+        emit SalaryBandAdded(employer, bandId, name);
+    }
+
+    /**
+     * @notice Place an employee of the caller's employer in a salary band
+     */
+    function setEmployeeSalaryBand(address employee, uint256 bandId) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) {
+        EmployerState storage state = _activeEmployer();
+        require(state.employees[employee].isActive, "Employee not found");
+        require(bandId < state.salaryBands.length, "Salary band not found");
+        
+        state.salaryBandOf[employee] = bandId + 1;
+        
+        emit EmployeeSalaryBandSet(employee, bandId);
+    }
+
+    /**
+     * @notice Check every salary against the legal minimum and the employee's band
+     * @dev Salaries stay encrypted. The caller can decrypt the number of violations and a flag per
+     *      employee, true when compliant, and nothing else. Each check replaces the previous results.
+     *      Whoever sets the rules cannot run checks, or moving the thresholds between checks would
+     *      narrow down each salary from its flag.
+     * @param employer Employer to check; the caller needs auditor access to it
+     * @return violationCount Encrypted number of employees paid below the minimum or outside their band
+     */
+    function checkSalaryCompliance(
+        address employer
+    ) external onlyRole(AUDITOR_ROLE) onlyAuditorOf(employer) returns (euint64 violationCount) {
+        require(!_isComplianceAuthority(msg.sender), "Rule setters cannot check salaries");
+        EmployerState storage state = employers[employer];
+        _requireAuditorPeriod(msg.sender, employer, state.currentPayPeriod);
+        _requireCohortSize(state.employeeRegistry.length());
+        
+        violationCount = ComplianceReports.checkSalaries(state);
+        
+        emit SalaryComplianceChecked(employer, msg.sender, state.employeeRegistry.length());
+    }
+
+    /**
+     * @notice Salary bands of an employer, indexed by band id
+     */
+    function getSalaryBands(address employer) external view returns (SalaryBand[] memory) {
+        return employers[employer].salaryBands;
+    }
+
+    /**
+     * @notice Band of an employee at an employer
+     * @return hasBand False when the employee was not placed in a band
+     * @return bandId Band id, only meaningful when hasBand is true
+     */
+    function getEmployeeSalaryBand(
+        address employer,
+        address employee
+    ) external view returns (bool hasBand, uint256 bandId) {
+        uint256 band = employers[employer].salaryBandOf[employee];
+        return (band != 0, band == 0 ? 0 : band - 1);
+    }
+
+    /**
+     * @notice Encrypted violation count of the latest salary compliance check at an employer
+     */
+    function getSalaryViolationCount(address employer) external view onlyAuditorOf(employer) returns (euint64) {
+        return employers[employer].salaryViolationCount;
+    }
+
+    /**
+     * @notice Encrypted compliance flag of an employee from the latest salary compliance check
+     */
+    function getSalaryComplianceFlag(
+        address employer,
+        address employee
+    ) external view onlyAuditorOf(employer) returns (ebool) {
+        return employers[employer].salaryCompliant[employee];
+    }
+}
@@ -0,0 +1,239 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "@fhevm/solidity/config/ZamaConfig.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "./libraries/EmployeeRegistry.sol";
+import "./libraries/TaxBrackets.sol";
+import "./libraries/PayrollTypes.sol";
+import "./libraries/AuditorGrants.sol";
+import "../interfaces/IPayrollSystem.sol";
+import "../interfaces/IPayrollAccessControl.sol";
+
+/**
+ * @title PayrollSystemBase
+ * @notice Storage, roles and shared helpers of the confidential payroll system
+ * @dev Inherited by ConfidentialPayrollSystem and by PayrollSystemExtension, which runs in the
+ *      payroll system's storage through delegatecall. Both must keep this as their only source
+ *      of state variables so the storage layouts stay identical.
+ */
+abstract contract PayrollSystemBase is SepoliaConfig, AccessControl, Pausable {
+    using AuditorGrants for AuditorGrants.Registry;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    bytes32 public constant EMPLOYER_ROLE = keccak256("EMPLOYER_ROLE");
+    bytes32 public constant PAYROLL_ADMIN_ROLE = keccak256("PAYROLL_ADMIN_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    bytes32 public constant SALARY_APPROVER_ROLE = keccak256("SALARY_APPROVER_ROLE");
+    // Sets the salary rules employers are checked against; administered by DEFAULT_ADMIN_ROLE only
+    bytes32 public constant REGULATOR_ROLE = keccak256("REGULATOR_ROLE");
+
+    struct EmployeeRef {
+        address employer;
+        address employee;
+    }
+
+    struct ReportRef {
+        address employer;
+        uint256 reportId;
+    }
+
+    mapping(address => EmployerState) internal employers;
+    address[] internal employerList;
+    address public primaryEmployer;
+    // Employer each payroll operator administers; operators hold the payroll roles for it alone
+    mapping(address => address) internal operatorEmployers;
+
+    mapping(bytes32 => EmployeeRef) internal employeeRefs;
+    uint256 internal employeeIdNonce;
+
+    // Compliance reports awaiting public decryption of their totals, by decryption request id
+    mapping(uint256 => ReportRef) internal pendingReportDecryptions;
+    // Every auditor grant ever made and the current grant of each auditor, by employer
+    AuditorGrants.Registry internal auditorGrants;
+    // Fewest employees an aggregate may cover, so it cannot single out an individual salary
+    uint256 public minCohortSize;
+
+    // Bracket tables are frozen once a payroll run has used them, so past runs stay reproducible
+    mapping(uint256 => TaxBrackets.Bracket[]) internal taxBrackets;
+    mapping(uint256 => bool) internal taxYearInUse;
+    uint256 public activeTaxYear;
+
+    event AuditorGrantCreated(
+        uint256 indexed grantId,
+        address indexed auditor,
+        address indexed employer,
+        uint256 startsAt,
+        uint256 expiresAt,
+        uint256 fromPeriod,
+        uint256 toPeriod
+    );
+
+    /// @dev The roster is frozen while a run is open so the cursor never skips or repeats an employee
+    modifier whenNoPayrollRunOpen() {
+        require(!isPayrollRunOpen(), "Payroll run in progress");
+        _;
+    }
+
+    modifier onlyEmployerAccount() {
+        require(employers[msg.sender].isRegistered, "Not an employer");
+        _;
+    }
+
+    /**
+     * @dev Employer accounts and their payroll operators hold EMPLOYER_ROLE and PAYROLL_ADMIN_ROLE
+     *      for their own employer only. The global AccessControl roles act for the primary employer.
+     */
+    modifier onlyPayrollRole(bytes32 role) {
+        if (!_hasPayrollRole(role, msg.sender)) {
+            revert AccessControlUnauthorizedAccount(msg.sender, role);
+        }
+        _;
+    }
+
+    modifier onlyAuditorOf(address employer) {
+        require(_hasAuditorAccess(msg.sender, employer), "No auditor access for employer");
+        _;
+    }
+
+    /**
+     * @dev A system admin or regulator. Employers can grant neither role, and auditors they appoint
+     *      hold neither, so nobody an employer controls picks the thresholds its salaries are checked
+     *      against.
+     */
+    modifier onlyComplianceAuthority() {
+        require(_isComplianceAuthority(msg.sender), "Not a compliance authority");
+        _;
+    }
+
+    /**
+     * @notice Record an auditor grant; callable by the employer itself or a system admin
+     */
+    function _grantAuditorAccess(
+        address auditor,
+        address employer,
+        uint256 startsAt,
+        uint256 expiresAt,
+        uint256 fromPeriod,
+        uint256 toPeriod
+    ) internal returns (uint256 grantId) {
+        require(msg.sender == employer || hasRole(DEFAULT_ADMIN_ROLE, msg.sender), "Not authorized for employer");
+        require(employers[employer].isRegistered, "Employer not registered");
+        
+        grantId = auditorGrants.grant(auditor, employer, startsAt, expiresAt, fromPeriod, toPeriod);
+        _grantRole(AUDITOR_ROLE, auditor);
+        
+        emit IPayrollAccessControl.AuditorAccessGranted(auditor, employer);
+        emit AuditorGrantCreated(grantId, auditor, employer, startsAt, expiresAt, fromPeriod, toPeriod);
+    }
+
+    /**
+     * @notice Check that an auditor's grant covers a pay period of the employer
+     */
+    function _requireAuditorPeriod(address auditor, address employer, uint256 payPeriod) internal view {
+        require(auditorGrants.covers(auditor, employer, payPeriod), "Period outside auditor scope");
+    }
+
+    /**
+     * @notice Employer an account acts for, or the zero address if it acts for none
+     */
+    function _employerOf(address account) internal view returns (address) {
+        if (employers[account].isRegistered) return account;
+        address employer = operatorEmployers[account];
+        if (employer != address(0)) return employer;
+        return _holdsGlobalPayrollRole(account) ? primaryEmployer : address(0);
+    }
+
+    /**
+     * @notice Check whether an account holds a payroll role for the employer it acts for
+     */
+    function _hasPayrollRole(bytes32 role, address account) internal view returns (bool) {
+        address employer = _employerOf(account);
+        if (employer == address(0)) return false;
+
+        bool isMember = account == employer || operatorEmployers[account] == employer;
+        bool isSalaryApprover = operatorEmployers[account] == employer
+            && employers[employer].salaryApprovers.contains(account);
+        return (isMember && (role == EMPLOYER_ROLE || role == PAYROLL_ADMIN_ROLE))
+            || (isSalaryApprover && role == SALARY_APPROVER_ROLE)
+            || (employer == primaryEmployer && hasRole(role, account));
+    }
+
+    /**
+     * @notice Check whether an account may set the salary rules of employers
+     */
+    function _isComplianceAuthority(address account) internal view returns (bool) {
+        return hasRole(DEFAULT_ADMIN_ROLE, account) || hasRole(REGULATOR_ROLE, account);
+    }
+
+    /**
+     * @notice Check whether an account holds a payroll role granted system-wide
+     */
+    function _holdsGlobalPayrollRole(address account) internal view returns (bool) {
+        return hasRole(EMPLOYER_ROLE, account)
+            || hasRole(PAYROLL_ADMIN_ROLE, account)
+            || hasRole(SALARY_APPROVER_ROLE, account);
+    }
+
+    /**
+     * @notice Payroll state of the caller's employer, which must be active
+     */
+    function _activeEmployer() internal view returns (EmployerState storage state) {
+        state = employers[_employerOf(msg.sender)];
+        require(state.isActive, "Employer not active");
+    }
+
+    /**
+     * @notice Check whether a payroll run is currently in progress for the caller's employer
+     */
+    function isPayrollRunOpen() public view returns (bool) {
+        EmployerState storage state = employers[_employerOf(msg.sender)];
+        PayrollRun storage run = state.payrollRuns[state.currentPayPeriod];
+        return run.startedAt != 0 && run.finalizedAt == 0;
+    }
+
+    /**
+     * @notice Announce a payment recorded by PayrollPayments
+     * @dev Payments recover wage advances, so the employer is let back into the outstanding balance
+     */
+    function _salaryPaid(EmployerState storage state, address employee, bytes32 paymentId) internal {
+        EmployeeData storage data = state.employees[employee];
+        address employer = employeeRefs[data.employeeId].employer;
+        FHE.allow(data.encryptedAdvance, employer);
+        
+        emit IPayrollSystem.SalaryPaid(data.employeeId, employer, paymentId);
+    }
+
+    /**
+     * @notice Active tax year, frozen from now on because a payment is about to use it
+     */
+    function _useActiveTaxYear() internal returns (uint256 taxYear) {
+        taxYear = activeTaxYear;
+        if (taxYear != 0) {
+            taxYearInUse[taxYear] = true;
+        }
+    }
+
+    /**
+     * @notice Check if an account holds an auditor grant for an active employer that is in effect right now
+     */
+    function _hasAuditorAccess(address account, address employer) internal view returns (bool) {
+        return employers[employer].isActive && auditorGrants.isInEffect(account, employer);
+    }
+
+    /**
+     * @notice Keep the period budget usable by this contract and decryptable by the employer and
+     *         every current payroll operator
+     */
+    function _allowBudget(EmployerState storage state, address employer) internal {
+        euint64 budget = state.config.encryptedPeriodBudget;
+        FHE.allowThis(budget);
+        FHE.allow(budget, employer);
+        for (uint256 i = 0; i < state.payrollOperators.length(); i++) {
+            FHE.allow(budget, state.payrollOperators.at(i));
+        }
+    }
+}
@@ -0,0 +1,599 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "@openzeppelin/contracts/proxy/Proxy.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./PayrollSystemBase.sol";
+import "./libraries/PayrollPayments.sol";
+import "./libraries/Deductions.sol";
+import "./libraries/ExpenseClaims.sol";
+import "./libraries/SalaryChanges.sol";
+
+/**
+ * @title PayrollSystemExtension
+ * @notice Salary streaming, payout destinations, wage advances, salary change approvals,
+ *         deductions, expense reimbursements and tax brackets of the confidential payroll system
+ * @dev Deployed once and passed to ConfidentialPayrollSystem, which forwards calls to functions it
+ *      does not define here by delegatecall. Calls this contract does not define either are
+ *      forwarded on to PayrollComplianceExtension the same way. Always call these functions at the
+ *      payroll system's address; called directly, the extension only sees its own, empty storage.
+ */
+contract PayrollSystemExtension is PayrollSystemBase, Proxy {
+    using TaxBrackets for TaxBrackets.Bracket[];
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    uint256 public constant MAX_PAYOUT_DESTINATIONS = 5;
+    uint256 public constant MIN_SALARY_CHANGE_DELAY = 1 days;
+    uint256 public constant MAX_SALARY_CHANGE_DELAY = 30 days;
+    uint8 public constant SALARY_CHANGE_PROPOSED = SalaryChanges.SALARY_CHANGE_PROPOSED;
+    uint8 public constant SALARY_CHANGE_APPROVED = SalaryChanges.SALARY_CHANGE_APPROVED;
+    uint8 public constant SALARY_CHANGE_EXECUTED = SalaryChanges.SALARY_CHANGE_EXECUTED;
+    uint8 public constant SALARY_CHANGE_CANCELLED = SalaryChanges.SALARY_CHANGE_CANCELLED;
+    uint256 public constant MAX_DEDUCTION_TYPES = Deductions.MAX_DEDUCTION_TYPES;
+    uint8 public constant CLAIM_STATUS_PENDING = ExpenseClaims.CLAIM_STATUS_PENDING;
+    uint8 public constant CLAIM_STATUS_APPROVED = ExpenseClaims.CLAIM_STATUS_APPROVED;
+    uint8 public constant CLAIM_STATUS_REJECTED = ExpenseClaims.CLAIM_STATUS_REJECTED;
+
+    // Implements the functions this contract forwards
+    address public immutable complianceExtension;
+
+    event SalaryStreamingSet(address indexed employee, bool enabled);
+    event PayoutDestinationsSet(address indexed employee, address indexed employer, uint256 destinationCount);
+    event AdvanceLimitSet(address indexed employer, uint256 limitBps);
+    event WageAdvancePaid(address indexed employee, address indexed employer, bytes32 paymentId);
+    event SalaryChangeDelaySet(address indexed employer, uint256 delay);
+    event SalaryApproverAdded(address indexed employer, address indexed approver);
+    event SalaryApproverRemoved(address indexed employer, address indexed approver);
+    event SalaryChangeApproved(
+        address indexed employer,
+        uint256 indexed changeId,
+        address approver,
+        uint256 effectiveAt
+    );
+    event SalaryChangeExecuted(address indexed employer, uint256 indexed changeId);
+    event SalaryChangeCancelled(address indexed employer, uint256 indexed changeId, address canceller);
+    event DeductionTypeAdded(address indexed employer, uint256 indexed deductionTypeId, string name);
+    event DeductionTypeDeactivated(address indexed employer, uint256 indexed deductionTypeId);
+    event DeductionOrderSet(address indexed employer);
+    event EmployeeDeductionSet(address indexed employee, uint256 indexed deductionTypeId);
+    event ExpenseApproverAdded(address indexed employer, address indexed approver);
+    event ExpenseApproverRemoved(address indexed employer, address indexed approver);
+    event ExpenseClaimSubmitted(
+        address indexed employer,
+        address indexed employee,
+        uint256 indexed claimId,
+        bytes32 receiptHash
+    );
+    event ExpenseClaimApproved(address indexed employer, uint256 indexed claimId, address approver);
+    event ExpenseClaimRejected(address indexed employer, uint256 indexed claimId, address approver);
+    event TaxBracketsSet(uint256 indexed taxYear, uint256 bracketCount);
+    event ActiveTaxYearSet(uint256 indexed taxYear);
+
+    constructor(address _complianceExtension) {
+        require(_complianceExtension != address(0), "Invalid extension");
+        
+        complianceExtension = _complianceExtension;
+    }
+
+    // ============ Salary Streaming ============
+
+    /**
+     * @notice Switch an employee between payroll runs and continuous salary streaming
+     * @dev Streaming employees are skipped by payroll runs and claim their own pay with
+     *      claimStreamedSalary. Time not yet paid for is paid under the new mode.
+     * @param employee Address of the employee
+     * @param enabled True to stream the salary, false to pay it in payroll runs
+     */
+    function setSalaryStreaming(
+        address employee,
+        bool enabled
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNoPayrollRunOpen {
+        EmployeeData storage data = _activeEmployer().employees[employee];
+        require(data.isActive, "Employee not found");
+        require(data.isStreaming != enabled, "Streaming mode unchanged");
+        
+        data.isStreaming = enabled;
+        
+        // The carried remainders are in the old mode's accrual units
+        data.encryptedRoundingRemainder = FHE.asEuint64(0);
+        data.encryptedTaxRoundingRemainder = FHE.asEuint64(0);
+        FHE.allowThis(data.encryptedRoundingRemainder);
+        FHE.allowThis(data.encryptedTaxRoundingRemainder);
+        
+        emit SalaryStreamingSet(employee, enabled);
+    }
+
+    /**
+     * @notice Claim the salary streamed to the caller since their last payment
+     * @dev Tax is withheld as for a regular payment. Claiming spreads the cost of payroll over
+     *      the employees instead of one large payroll run; pay the treasury cannot cover stays owed.
+     * @param employer The employer streaming the caller's salary
+     * @return paymentId The unique identifier for this payment
+     */
+    function claimStreamedSalary(address employer) external whenNotPaused returns (bytes32 paymentId) {
+        EmployerState storage state = employers[employer];
+        require(state.isActive, "Employer not active");
+        EmployeeData storage data = state.employees[msg.sender];
+        require(data.isActive, "Employee not found");
+        require(data.isStreaming, "Salary not streamed");
+        
+        paymentId = PayrollPayments.paySalary(state, taxBrackets[_useActiveTaxYear()], msg.sender);
+        _salaryPaid(state, msg.sender, paymentId);
+    }
+
+    /**
+     * @notice Check if an employee of a specific employer is paid by salary streaming
+     */
+    function isSalaryStreamed(address employee, address employer) external view returns (bool) {
+        return employers[employer].employees[employee].isStreaming;
+    }
+
+    // ============ Payout Destinations ============
+
+    /**
+     * @notice Send part of the caller's net pay to other addresses, e.g. a savings wallet
+     * @dev Replaces the caller's destinations; pass an empty array to receive everything again.
+     *      Destinations are served in order, each capped at what the earlier ones left of the net
+     *      pay, so the split never exceeds it. The remainder goes to the caller's own address.
+     * @param employer The employer paying the caller
+     * @param destinations Payout destinations, at most MAX_PAYOUT_DESTINATIONS
+     * @param inputProof Proof for the encrypted amounts and rates
+     */
+    function setPayoutDestinations(
+        address employer,
+        PayoutDestinationInput[] calldata destinations,
+        bytes calldata inputProof
+    ) external {
+        EmployerState storage state = employers[employer];
+        require(state.employees[msg.sender].isActive, "Employee not found");
+        require(destinations.length <= MAX_PAYOUT_DESTINATIONS, "Too many payout destinations");
+        
+        delete state.payoutDestinations[msg.sender];
+        for (uint256 i = 0; i < destinations.length; i++) {
+            _addPayoutDestination(state.payoutDestinations[msg.sender], destinations[i], inputProof);
+        }
+        
+        emit PayoutDestinationsSet(msg.sender, employer, destinations.length);
+    }
+
+    function _addPayoutDestination(
+        PayoutDestination[] storage destinations,
+        PayoutDestinationInput calldata destination,
+        bytes calldata inputProof
+    ) internal {
+        require(
+            destination.wallet != address(0) && destination.wallet != msg.sender,
+            "Invalid payout destination"
+        );
+        
+        euint64 value = FHE.fromExternal(destination.value, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        destinations.push(PayoutDestination({wallet: destination.wallet, isRate: destination.isRate, value: value}));
+    }
+
+    /**
+     * @notice Addresses an employee of a specific employer splits their net pay across
+     */
+    function getPayoutDestinations(
+        address employee,
+        address employer
+    ) external view returns (PayoutDestination[] memory) {
+        return employers[employer].payoutDestinations[employee];
+    }
+
+    // ============ Wage Advances ============
+
+    /**
+     * @notice Let the caller's employees draw part of their earned salary before payday
+     * @param limitBps Share of the earned, unpaid salary an employee may draw, in basis points; 0 disables advances
+     */
+    function setAdvanceLimit(uint256 limitBps) external onlyEmployerAccount {
+        require(limitBps <= PayrollPayments.BASIS_POINTS, "Invalid advance limit");
+        
+        _activeEmployer().config.advanceLimitBps = limitBps;
+        
+        emit AdvanceLimitSet(msg.sender, limitBps);
+    }
+
+    /**
+     * @notice Draw part of the salary earned since the caller's last payment before payday
+     * @dev The request is paid in full if it fits within the employer's advance limit of the earned
+     *      salary, less advances still outstanding, and nothing is paid otherwise. Advances are
+     *      deducted from the net pay of the following salary payments.
+     * @param employer The employer paying the caller
+     * @param encryptedAmount Encrypted amount requested
+     * @param inputProof Proof for the encrypted amount input
+     * @return paymentId The unique identifier for this payment
+     */
+    function requestWageAdvance(
+        address employer,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external whenNotPaused returns (bytes32 paymentId) {
+        EmployerState storage state = employers[employer];
+        require(state.isActive, "Employer not active");
+        require(state.config.advanceLimitBps > 0, "Wage advances disabled");
+        EmployeeData storage data = state.employees[msg.sender];
+        require(data.isActive, "Employee not found");
+        
+        euint64 requested = FHE.fromExternal(encryptedAmount, inputProof);
+        paymentId = PayrollPayments.payAdvance(state, employer, msg.sender, requested);
+        
+        emit WageAdvancePaid(msg.sender, employer, paymentId);
+    }
+
+    /**
+     * @notice Wage advances an employee of a specific employer has yet to pay back
+     * @return Encrypted outstanding advance, decryptable by the employee and the employer
+     */
+    function getOutstandingAdvance(address employee, address employer) external view returns (euint64) {
+        return employers[employer].employees[employee].encryptedAdvance;
+    }
+
+    // ============ Salary Changes ============
+
+    /**
+     * @notice Set how long approved salary changes of the caller's employees wait before taking effect
+     */
+    function setSalaryChangeDelay(uint256 delay) external onlyEmployerAccount {
+        require(
+            delay >= MIN_SALARY_CHANGE_DELAY && delay <= MAX_SALARY_CHANGE_DELAY,
+            "Invalid salary change delay"
+        );
+        
+        _activeEmployer().config.salaryChangeDelay = delay;
+        
+        emit SalaryChangeDelaySet(msg.sender, delay);
+    }
+
+    /**
+     * @notice Let one of the caller's payroll operators approve its salary changes
+     * @dev Approvers act for the caller only; removing the operator also removes the approver
+     */
+    function addSalaryApprover(address approver) external onlyEmployerAccount {
+        require(operatorEmployers[approver] == msg.sender, "Not an operator of employer");
+        require(employers[msg.sender].salaryApprovers.add(approver), "Already an approver");
+        emit SalaryApproverAdded(msg.sender, approver);
+    }
+
+    /**
+     * @notice Revoke a salary approver of the caller
+     */
+    function removeSalaryApprover(address approver) external onlyEmployerAccount {
+        require(employers[msg.sender].salaryApprovers.remove(approver), "Not an approver");
+        emit SalaryApproverRemoved(msg.sender, approver);
+    }
+
+    /**
+     * @notice Let the caller decrypt a proposed salary before approving it
+     */
+    function reviewSalaryChange(uint256 changeId) external onlyPayrollRole(SALARY_APPROVER_ROLE) {
+        SalaryChanges.review(_activeEmployer(), changeId);
+    }
+
+    /**
+     * @notice Approve a proposed salary change, starting its timelock
+     */
+    function approveSalaryChange(uint256 changeId) external onlyPayrollRole(SALARY_APPROVER_ROLE) whenNotPaused {
+        uint256 effectiveAt = SalaryChanges.approve(_activeEmployer(), changeId);
+        
+        emit SalaryChangeApproved(_employerOf(msg.sender), changeId, msg.sender, effectiveAt);
+    }
+
+    /**
+     * @notice Apply an approved salary change once its timelock has passed
+     */
+    function executeSalaryChange(uint256 changeId) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNotPaused {
+        bytes32 employeeId = SalaryChanges.execute(_activeEmployer(), changeId);
+        
+        emit SalaryChangeExecuted(_employerOf(msg.sender), changeId);
+        emit IPayrollSystem.SalaryUpdated(employeeId, _employerOf(msg.sender));
+    }
+
+    /**
+     * @notice Withdraw a salary change that has not taken effect yet
+     * @dev Open to payroll administrators and salary approvers of the employer
+     */
+    function cancelSalaryChange(uint256 changeId) external {
+        require(
+            _hasPayrollRole(PAYROLL_ADMIN_ROLE, msg.sender) || _hasPayrollRole(SALARY_APPROVER_ROLE, msg.sender),
+            "Not authorized to cancel"
+        );
+        SalaryChanges.cancel(_activeEmployer(), changeId);
+        
+        emit SalaryChangeCancelled(_employerOf(msg.sender), changeId, msg.sender);
+    }
+
+    /**
+     * @notice Salary changes proposed at an employer, by identifier
+     */
+    function getSalaryChange(address employer, uint256 changeId) external view returns (SalaryChange memory) {
+        return SalaryChanges.get(employers[employer], changeId);
+    }
+
+    /**
+     * @notice Number of salary changes proposed at an employer
+     */
+    function getSalaryChangeCount(address employer) external view returns (uint256) {
+        return employers[employer].salaryChanges.length;
+    }
+
+    /**
+     * @notice Check if an account may approve an employer's salary changes as one of its operators
+     */
+    function isSalaryApprover(address account, address employer) external view returns (bool) {
+        return operatorEmployers[account] == employer && employers[employer].salaryApprovers.contains(account);
+    }
+
+    // ============ Deductions ============
+
+    /**
+     * @notice Define a deduction withheld from the net pay of the caller's employees
+     * @dev New types are applied after the existing ones
+     * @param name Display name, e.g. "Health insurance"
+     * @param payee Account the withheld amounts are paid to
+     * @param isRate True if per-employee values are basis points of gross pay, false for fixed amounts
+     * @return deductionTypeId Identifier of the new deduction type
+     */
+    function addDeductionType(
+        string calldata name,
+        address payee,
+        bool isRate
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNoPayrollRunOpen returns (uint256 deductionTypeId) {
+        deductionTypeId = Deductions.addType(_activeEmployer(), name, payee, isRate);
+        
+        emit DeductionTypeAdded(_employerOf(msg.sender), deductionTypeId, name);
+    }
+
+    /**
+     * @notice Stop withholding a deduction type; its year-to-date totals and payslip lines are kept
+     */
+    function deactivateDeductionType(
+        uint256 deductionTypeId
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNoPayrollRunOpen {
+        Deductions.deactivateType(_activeEmployer(), deductionTypeId);
+        
+        emit DeductionTypeDeactivated(_employerOf(msg.sender), deductionTypeId);
+    }
+
+    /**
+     * @notice Set the order deductions are applied in
+     * @dev Each deduction is capped at what earlier ones left of the net pay, so put the ones that
+     *      must be paid in full, like court-ordered garnishments, first
+     * @param order Every deduction type id, exactly once
+     */
+    function setDeductionOrder(
+        uint256[] calldata order
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNoPayrollRunOpen {
+        Deductions.setOrder(_activeEmployer(), order);
+        
+        emit DeductionOrderSet(_employerOf(msg.sender));
+    }
+
+    /**
+     * @notice Set what an employee pays for a deduction type
+     * @param employee Address of the employee
+     * @param deductionTypeId Deduction type identifier
+     * @param encryptedValue Encrypted amount per payment, or rate in basis points for rate types; 0 to stop
+     * @param inputProof Proof for the encrypted input
+     */
+    function setEmployeeDeduction(
+        address employee,
+        uint256 deductionTypeId,
+        externalEuint64 encryptedValue,
+        bytes calldata inputProof
+    ) external onlyPayrollRole(PAYROLL_ADMIN_ROLE) whenNoPayrollRunOpen {
+        euint64 value = FHE.fromExternal(encryptedValue, inputProof);
+        Deductions.setEmployeeValue(_activeEmployer(), employee, deductionTypeId, value);
+        
+        emit EmployeeDeductionSet(employee, deductionTypeId);
+    }
+
+    /**
+     * @notice Deduction types of a specific employer, by identifier
+     */
+    function getDeductionTypes(address employer) external view returns (DeductionType[] memory) {
+        return employers[employer].deductionTypes;
+    }
+
+    /**
+     * @notice Deduction type identifiers of a specific employer, in the order they are applied
+     */
+    function getDeductionOrder(address employer) external view returns (uint256[] memory) {
+        return employers[employer].deductionOrder;
+    }
+
+    /**
+     * @notice Encrypted amount or rate an employee of a specific employer pays for a deduction type
+     */
+    function getEmployeeDeduction(
+        address employee,
+        uint256 deductionTypeId,
+        address employer
+    ) external view returns (euint64) {
+        return employers[employer].deductions[employee][deductionTypeId];
+    }
+
+    /**
+     * @notice Encrypted total an employee had withheld for a deduction type, decryptable by the employee
+     */
+    function getDeductionYTD(
+        address employee,
+        uint256 deductionTypeId,
+        address employer
+    ) external view returns (euint64) {
+        return employers[employer].deductionsYTD[employee][deductionTypeId];
+    }
+
+    /**
+     * @notice Deductions withheld from a payment, the line items of its payslip
+     * @param paymentId Payment identifier from the payment history
+     * @param employer The employer that made the payment
+     */
+    function getPayslipDeductions(bytes32 paymentId, address employer) external view returns (PayslipLine[] memory) {
+        return employers[employer].payslipLines[paymentId];
+    }
+
+    // ============ Expense Reimbursements ============
+
+    /**
+     * @notice Let an account approve and reject the caller's expense claims
+     * @dev Approvers can decrypt the amounts of claims submitted after they were added
+     */
+    function addExpenseApprover(address approver) external onlyEmployerAccount {
+        require(employers[msg.sender].expenseApprovers.add(approver), "Already an approver");
+        emit ExpenseApproverAdded(msg.sender, approver);
+    }
+
+    /**
+     * @notice Revoke an expense approver of the caller
+     */
+    function removeExpenseApprover(address approver) external onlyEmployerAccount {
+        require(employers[msg.sender].expenseApprovers.remove(approver), "Not an approver");
+        emit ExpenseApproverRemoved(msg.sender, approver);
+    }
+
+    /**
+     * @notice Submit an expense for reimbursement with the next salary payment
+     * @param employer The employer the caller works for
+     * @param encryptedAmount Encrypted amount to reimburse
+     * @param inputProof Proof for the encrypted amount input
+     * @param receiptHash Hash of the receipt, kept off-chain
+     * @return claimId Identifier of the claim
+     */
+    function submitExpenseClaim(
+        address employer,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        bytes32 receiptHash
+    ) external whenNotPaused returns (uint256 claimId) {
+        EmployerState storage state = employers[employer];
+        require(state.isActive, "Employer not active");
+        require(state.employees[msg.sender].isActive, "Employee not found");
+        
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        claimId = ExpenseClaims.submit(state, employer, amount, receiptHash);
+        
+        emit ExpenseClaimSubmitted(employer, msg.sender, claimId, receiptHash);
+    }
+
+    /**
+     * @notice Approve an expense claim; it is paid untaxed with the employee's next salary payment
+     * @param employer The employer the claim was submitted to
+     * @param claimId Identifier of the claim
+     */
+    function approveExpenseClaim(address employer, uint256 claimId) external whenNotPaused {
+        _reviewExpenseClaim(employer, claimId, CLAIM_STATUS_APPROVED);
+        
+        emit ExpenseClaimApproved(employer, claimId, msg.sender);
+    }
+
+    /**
+     * @notice Reject an expense claim
+     * @param employer The employer the claim was submitted to
+     * @param claimId Identifier of the claim
+     */
+    function rejectExpenseClaim(address employer, uint256 claimId) external {
+        _reviewExpenseClaim(employer, claimId, CLAIM_STATUS_REJECTED);
+        
+        emit ExpenseClaimRejected(employer, claimId, msg.sender);
+    }
+
+    /**
+     * @notice Settle a pending claim the caller may review
+     * @dev Reviewers are the employer, its payroll operators and its expense approvers
+     */
+    function _reviewExpenseClaim(address employer, uint256 claimId, uint8 status) internal {
+        EmployerState storage state = employers[employer];
+        require(state.isActive, "Employer not active");
+        require(
+            msg.sender == employer
+                || (_employerOf(msg.sender) == employer && _hasPayrollRole(EMPLOYER_ROLE, msg.sender))
+                || state.expenseApprovers.contains(msg.sender),
+            "Not an expense approver"
+        );
+        
+        ExpenseClaims.review(state, claimId, status);
+    }
+
+    /**
+     * @notice Expense claims submitted to an employer, by identifier
+     */
+    function getExpenseClaim(address employer, uint256 claimId) external view returns (ExpenseClaim memory) {
+        require(claimId < employers[employer].expenseClaims.length, "Claim not found");
+        return employers[employer].expenseClaims[claimId];
+    }
+
+    /**
+     * @notice Number of expense claims submitted to an employer
+     */
+    function getExpenseClaimCount(address employer) external view returns (uint256) {
+        return employers[employer].expenseClaims.length;
+    }
+
+    /**
+     * @notice Check if an account may review an employer's expense claims as a delegated approver
+     */
+    function isExpenseApprover(address account, address employer) external view returns (bool) {
+        return employers[employer].expenseApprovers.contains(account);
+    }
+
+    /**
+     * @notice Untaxed expense reimbursement paid with a salary payment, a payslip line of its own
+     * @dev Not included in the payment record's net amount
+     * @param paymentId Payment identifier from the payment history
+     * @param employer The employer that made the payment
+     */
+    function getPayslipReimbursement(bytes32 paymentId, address employer) external view returns (euint64) {
+        return employers[employer].payslipReimbursements[paymentId];
+    }
+
+    // ============ Tax Brackets ============
+
+    /**
+     * @notice Define the progressive tax brackets for a tax year
+     * @dev Bracket tables are shared by all employers. A tax year's table cannot be changed
+     *      once a payroll run has used it.
+     * @param taxYear Tax year the brackets apply to (non-zero)
+     * @param thresholds Annual income at which each bracket starts, strictly increasing from zero
+     * @param ratesBps Marginal rate of each bracket in basis points
+     */
+    function setTaxBrackets(
+        uint256 taxYear,
+        uint64[] calldata thresholds,
+        uint64[] calldata ratesBps
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(taxYear != 0, "Invalid tax year");
+        require(!taxYearInUse[taxYear], "Tax year already used by a payroll run");
+        
+        taxBrackets[taxYear].set(thresholds, ratesBps);
+        
+        emit TaxBracketsSet(taxYear, thresholds.length);
+    }
+
+    /**
+     * @notice Select the tax year whose brackets apply to the next payroll runs
+     * @dev Open runs keep the tax year they started with
+     * @param taxYear Tax year with configured brackets, or 0 to use each employee's flat rate
+     */
+    function setActiveTaxYear(uint256 taxYear) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(taxYear == 0 || taxBrackets[taxYear].length > 0, "No brackets for tax year");
+        
+        activeTaxYear = taxYear;
+        
+        emit ActiveTaxYearSet(taxYear);
+    }
+
+    /**
+     * @notice Get the bracket table of a tax year
+     */
+    function getTaxBrackets(uint256 taxYear) external view returns (TaxBrackets.Bracket[] memory) {
+        return taxBrackets[taxYear];
+    }
+
+    function _implementation() internal view override returns (address) {
+        return complianceExtension;
+    }
+}
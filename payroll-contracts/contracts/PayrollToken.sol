@@ -3,22 +3,36 @@ pragma solidity ^0.8.24;
 
 import "@fhevm/solidity/lib/FHE.sol";
 import "@fhevm/solidity/config/ZamaConfig.sol";
-import "@openzeppelin/confidential-contracts/token/ConfidentialFungibleToken.sol";
+import "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
 import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "./interfaces/IsPausable.sol";
+import "../interfaces/IPayrollToken.sol";
 
 /**
  * @title PayrollToken
  * @notice Confidential token specifically designed for payroll payments
- * @dev Extends ConfidentialFungibleToken with payroll-specific features
+ * @dev Extends ERC7984 with payroll-specific features. Tokens only come into
+ *      existence by wrapping ERC20 with the wrapper and leave by unwrapping, so the supply always
+ *      matches the wrapper's reserve. Employers escrow a payroll budget in the token; escrowed
+ *      funds are held by the token contract itself and can only leave as salary payments or an
+ *      emergency withdrawal back to the employer. Withheld tax is held by the token as well until
+ *      it is remitted to the tax authority.
  */
-contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step {
+contract PayrollToken is SepoliaConfig, ERC7984, Ownable2Step, Pausable, IsPausable, IPayrollToken {
     
     mapping(address => bool) public payrollManagers;
+    mapping(address => bool) public guardians;
     mapping(address => euint64) private pendingWithholdings;
+    mapping(address => euint64) private payrollBudgets;
     address public taxAuthority;
+    address public wrapper;
     
     event PayrollManagerAdded(address indexed manager);
     event PayrollManagerRemoved(address indexed manager);
+    event GuardianAdded(address indexed guardian);
+    event GuardianRemoved(address indexed guardian);
+    event WrapperSet(address indexed wrapper);
     event TaxWithheld(address indexed from, uint256 period);
     event TaxRemitted(address indexed authority, uint256 period);
     
@@ -27,18 +41,23 @@ contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step
         _;
     }
     
+    modifier onlyGuardian() {
+        require(guardians[msg.sender] || msg.sender == owner(), "Not a guardian");
+        _;
+    }
+    
+    modifier onlyWrapper() {
+        require(msg.sender == wrapper, "Not the wrapper");
+        _;
+    }
+    
     constructor(
-        uint64 initialSupply,
         address _taxAuthority
-    ) ConfidentialFungibleToken(
+    ) ERC7984(
         "Confidential Payroll Token",
         "CPT",
         "https://payroll.example/token"
     ) Ownable(msg.sender) {
-        // Mint initial supply to treasury
-        euint64 encryptedSupply = FHE.asEuint64(initialSupply);
-        _mint(msg.sender, encryptedSupply);
-        
         taxAuthority = _taxAuthority;
         payrollManagers[msg.sender] = true;
     }
@@ -61,8 +80,27 @@ contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step
         emit PayrollManagerRemoved(manager);
     }
     
+    /**
+     * @notice Add a guardian who can pause the token in an emergency
+     * @param guardian Address to grant the guardian role
+     */
+    function addGuardian(address guardian) external onlyOwner {
+        guardians[guardian] = true;
+        emit GuardianAdded(guardian);
+    }
+    
+    /**
+     * @notice Remove a guardian
+     * @param guardian Address to revoke the guardian role
+     */
+    function removeGuardian(address guardian) external onlyOwner {
+        guardians[guardian] = false;
+        emit GuardianRemoved(guardian);
+    }
+    
     /**
      * @notice Process payroll payment with automatic tax withholding
+     * @dev Paid from the caller's own balance; the withheld tax moves into the token's custody
      * @param employee Employee address
      * @param grossPay Encrypted gross payment amount
      * @param taxAmount Encrypted tax to withhold
@@ -72,26 +110,77 @@ contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step
         euint64 grossPay,
         euint64 taxAmount
     ) public onlyPayrollManager {
-        require(FHE.isSenderAllowed(grossPay), "Gross pay not allowed");
-        require(FHE.isSenderAllowed(taxAmount), "Tax amount not allowed");
+        _requireSenderAllowed(grossPay, taxAmount);
+        
+        // The payer must cover the full gross
+        ebool paid = FHE.le(grossPay, confidentialBalanceOf(msg.sender));
+        _update(msg.sender, address(this), FHE.select(paid, grossPay, FHE.asEuint64(0)));
+        
+        _payOutOfCustody(employee, grossPay, taxAmount, paid);
+    }
+    
+    /**
+     * @notice Process payroll payment funded by a treasury's escrowed payroll budget
+     * @dev The treasury must have made the caller an operator via setOperator. The budget is
+     *      charged the full gross: the net pay leaves escrow now, the tax stays until remitted.
+     * @param treasury Employer account whose payroll budget funds the payment
+     * @param employee Employee address
+     * @param grossPay Encrypted gross payment amount
+     * @param taxAmount Encrypted tax to withhold
+     * @return paid Encrypted flag, false when the budget could not cover the gross pay
+     */
+    function processPayrollPaymentFrom(
+        address treasury,
+        address employee,
+        euint64 grossPay,
+        euint64 taxAmount
+    ) external onlyPayrollManager returns (ebool paid) {
+        require(isOperator(treasury, msg.sender), "Not a treasury operator");
+        _requireSenderAllowed(grossPay, taxAmount);
         
-        // Calculate net pay
-        euint64 netPay = FHE.sub(grossPay, taxAmount);
+        euint64 budget = _payrollBudgetOrZero(treasury);
+        paid = FHE.le(grossPay, budget);
+        _setPayrollBudget(treasury, FHE.sub(budget, FHE.select(paid, grossPay, FHE.asEuint64(0))));
         
-        // Transfer net pay to employee
-        ebool canTransfer = FHE.le(grossPay, confidentialBalanceOf(msg.sender));
+        _payOutOfCustody(employee, grossPay, taxAmount, paid);
         
-        // Conditional transfer based on balance check
-        euint64 actualTransfer = FHE.select(canTransfer, netPay, FHE.asEuint64(0));
+        // Let the caller record the outcome of this payment
+        FHE.allowTransient(paid, msg.sender);
+    }
+    
+    /**
+     * @notice Encrypted payroll budget a treasury escrowed, for the payroll manager it funds
+     * @dev The handle is only usable by the caller for the rest of the transaction
+     * @param treasury Account that made the caller an operator via setOperator
+     * @return budget Encrypted escrowed budget
+     */
+    function treasuryBudgetOf(address treasury) external onlyPayrollManager returns (euint64 budget) {
+        require(isOperator(treasury, msg.sender), "Not a treasury operator");
         
-        // Perform the transfer
-        _update(msg.sender, employee, actualTransfer);
+        budget = _payrollBudgetOrZero(treasury);
+        FHE.allowTransient(budget, msg.sender);
+    }
+    
+    function _requireSenderAllowed(euint64 grossPay, euint64 taxAmount) internal view {
+        require(FHE.isSenderAllowed(grossPay), "Gross pay not allowed");
+        require(FHE.isSenderAllowed(taxAmount), "Tax amount not allowed");
+    }
+    
+    /**
+     * @dev Shared payment path: sends the net pay out of the token's custody and accrues the
+     *      withheld tax, which stays in custody until remitted
+     * @param paid Encrypted flag, false to pay and withhold nothing
+     */
+    function _payOutOfCustody(address employee, euint64 grossPay, euint64 taxAmount, ebool paid) internal {
+        euint64 zero = FHE.asEuint64(0);
+        _update(address(this), employee, FHE.select(paid, FHE.sub(grossPay, taxAmount), zero));
         
-        // Accumulate tax withholdings
+        // Accumulate tax withholdings, only for payments that went through
         pendingWithholdings[taxAuthority] = FHE.add(
             pendingWithholdings[taxAuthority],
-            taxAmount
+            FHE.select(paid, taxAmount, zero)
         );
+        FHE.allowThis(pendingWithholdings[taxAuthority]);
         
         // Allow employee to view their balance
         FHE.allow(confidentialBalanceOf(employee), employee);
@@ -127,7 +216,7 @@ contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step
     
     /**
      * @notice Remit accumulated tax withholdings to tax authority
-     * @dev Only callable by payroll managers
+     * @dev Only callable by payroll managers; the withheld tax is paid out of the token's custody
      */
     function remitTaxWithholdings() external onlyPayrollManager {
         euint64 totalTax = pendingWithholdings[taxAuthority];
@@ -137,7 +226,7 @@ contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step
         
         // Transfer tax amount to authority
         euint64 remittance = FHE.select(hasTax, totalTax, FHE.asEuint64(0));
-        _update(msg.sender, taxAuthority, remittance);
+        _update(address(this), taxAuthority, remittance);
         
         // Reset pending withholdings
         pendingWithholdings[taxAuthority] = FHE.asEuint64(0);
@@ -148,6 +237,192 @@ contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step
         emit TaxRemitted(taxAuthority, block.timestamp);
     }
     
+    // ============ ERC20 Wrapping ============
+    
+    /**
+     * @notice Set the ERC20 wrapper allowed to mint and burn tokens against its reserve
+     * @param _wrapper The wrapper contract, or the zero address to disable wrapping
+     */
+    function setWrapper(address _wrapper) external onlyOwner {
+        wrapper = _wrapper;
+        emit WrapperSet(_wrapper);
+    }
+    
+    /**
+     * @notice Mint tokens for ERC20 deposited with the wrapper
+     * @param to The account credited
+     * @param amount The plaintext amount deposited
+     */
+    function mintWrapped(address to, uint64 amount) external onlyWrapper {
+        _mint(to, FHE.asEuint64(amount));
+    }
+    
+    /**
+     * @notice Burn tokens the wrapper is about to release as ERC20
+     * @dev Burns nothing if the balance cannot cover the full amount
+     * @param from The account debited
+     * @param amount The encrypted amount to burn
+     * @return burnt The encrypted amount actually burnt, decryptable by the wrapper
+     */
+    function burnWrapped(address from, euint64 amount) external onlyWrapper returns (euint64 burnt) {
+        require(FHE.isSenderAllowed(amount), "Unwrap amount not allowed");
+        
+        burnt = _burn(from, amount);
+        FHE.allowThis(burnt);
+        FHE.allow(burnt, msg.sender);
+    }
+    
+    // ============ Payroll Budgets ============
+    
+    /**
+     * @notice Set the caller's escrowed payroll budget
+     * @dev Moves the difference between the current and the new budget from the caller's balance
+     *      into escrow, or back. If the caller cannot cover an increase, the budget is unchanged.
+     * @param encryptedBudget The encrypted total payroll budget
+     * @param inputProof Proof for the encrypted budget input
+     */
+    function setPayrollBudget(
+        externalEuint64 encryptedBudget,
+        bytes calldata inputProof
+    ) external {
+        euint64 target = FHE.fromExternal(encryptedBudget, inputProof);
+        euint64 current = getPayrollBudget(msg.sender);
+        euint64 zero = FHE.asEuint64(0);
+        
+        ebool increase = FHE.gt(target, current);
+        euint64 deposit = FHE.select(increase, FHE.sub(target, current), zero);
+        euint64 release = FHE.select(increase, zero, FHE.sub(current, target));
+        
+        // _update moves nothing when the caller's balance is short
+        euint64 deposited = _update(msg.sender, address(this), deposit);
+        _update(address(this), msg.sender, release);
+        
+        _setPayrollBudget(msg.sender, FHE.sub(FHE.add(current, deposited), release));
+        
+        emit PayrollAllowanceSet(msg.sender, payrollBudgets[msg.sender]);
+    }
+    
+    /**
+     * @notice Move tokens from the caller's balance into an employer's payroll budget
+     * @dev Moves nothing if the caller's balance cannot cover the full amount
+     * @param employer The employer address
+     * @param amount The plaintext amount to add
+     */
+    function topUpPayrollBudget(address employer, uint64 amount) external {
+        // _update moves nothing when the caller's balance is short
+        euint64 deposited = _update(msg.sender, address(this), FHE.asEuint64(amount));
+        
+        _setPayrollBudget(employer, FHE.add(getPayrollBudget(employer), deposited));
+        
+        emit PayrollBudgetTopUp(employer, deposited);
+    }
+    
+    /**
+     * @notice Pay a salary from the caller's payroll budget
+     * @dev Pays nothing if the budget cannot cover the full amount
+     * @param employee The employee address
+     * @param encryptedAmount The encrypted salary amount
+     * @param paymentId The unique payment identifier
+     */
+    function processSalaryPayment(
+        address employee,
+        euint64 encryptedAmount,
+        bytes32 paymentId
+    ) public {
+        require(FHE.isSenderAllowed(encryptedAmount), "Salary amount not allowed");
+        
+        _payFromBudget(msg.sender, employee, encryptedAmount);
+        
+        // Allow employee to view their balance
+        FHE.allow(confidentialBalanceOf(employee), employee);
+        
+        emit SalaryTransfer(msg.sender, employee, paymentId);
+    }
+    
+    /**
+     * @notice Pay several salaries from the caller's payroll budget
+     * @param employees Array of employee addresses
+     * @param encryptedAmounts Array of encrypted salary amounts
+     * @param paymentIds Array of unique payment identifiers
+     */
+    function batchProcessSalaries(
+        address[] calldata employees,
+        euint64[] calldata encryptedAmounts,
+        bytes32[] calldata paymentIds
+    ) external {
+        require(
+            employees.length == encryptedAmounts.length &&
+            employees.length == paymentIds.length,
+            "Array length mismatch"
+        );
+        
+        for (uint256 i = 0; i < employees.length; i++) {
+            processSalaryPayment(employees[i], encryptedAmounts[i], paymentIds[i]);
+        }
+    }
+    
+    /**
+     * @notice Return escrowed budget to the caller's own balance
+     * @dev Withdraws nothing if the budget cannot cover the full amount. Works while the token is
+     *      paused, so an employer can always recover its escrow; other transfers stay frozen.
+     * @param encryptedAmount The encrypted amount to withdraw
+     * @param inputProof Proof for the encrypted amount input
+     */
+    function emergencyWithdraw(
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        
+        euint64 withdrawn = _chargePayrollBudget(msg.sender, amount);
+        // Bypasses the pause check in _update
+        ERC7984._update(address(this), msg.sender, withdrawn);
+        FHE.allowThis(withdrawn);
+        FHE.allow(withdrawn, msg.sender);
+        
+        emit PayrollBudgetWithdrawn(msg.sender, withdrawn);
+    }
+    
+    /**
+     * @notice Get the encrypted payroll budget remaining for an employer
+     * @param employer The employer address
+     * @return budget The encrypted remaining budget
+     */
+    function getPayrollBudget(address employer) public view returns (euint64 budget) {
+        return payrollBudgets[employer];
+    }
+    
+    function _payrollBudgetOrZero(address employer) internal returns (euint64 budget) {
+        budget = getPayrollBudget(employer);
+        if (!FHE.isInitialized(budget)) {
+            budget = FHE.asEuint64(0);
+        }
+    }
+    
+    /**
+     * @dev Moves `amount` out of escrow if `employer`'s budget covers it, and charges the budget
+     */
+    function _payFromBudget(address employer, address to, euint64 amount) internal returns (euint64 paid) {
+        paid = _chargePayrollBudget(employer, amount);
+        _update(address(this), to, paid);
+    }
+    
+    /**
+     * @dev Charges `amount` to `employer`'s budget if it covers it; the caller moves the tokens
+     */
+    function _chargePayrollBudget(address employer, euint64 amount) internal returns (euint64 charged) {
+        euint64 budget = getPayrollBudget(employer);
+        
+        charged = FHE.select(FHE.le(amount, budget), amount, FHE.asEuint64(0));
+        _setPayrollBudget(employer, FHE.sub(budget, charged));
+    }
+    
+    function _setPayrollBudget(address employer, euint64 budget) internal {
+        payrollBudgets[employer] = budget;
+        FHE.allowThis(budget);
+        FHE.allow(budget, employer);
+    }
+    
     /**
      * @notice Get encrypted balance (extends base functionality)
      * @param account Address to check balance
@@ -160,10 +435,36 @@ contract PayrollToken is SepoliaConfig, ConfidentialFungibleToken, Ownable2Step
     
     /**
      * @notice Emergency pause functionality
-     * @dev Can be extended with OpenZeppelin Pausable
+     * @dev Blocks every balance change: transfers, mints, payroll payments and budget movements,
+     *      except an employer withdrawing its own escrowed budget
+     */
+    function emergencyPause() external onlyGuardian {
+        _pause();
+    }
+    
+    /**
+     * @notice Resume normal operation after an emergency pause
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+    
+    /**
+     * @notice Returns true if the token is paused
+     */
+    function paused() public view override(Pausable, IsPausable) returns (bool) {
+        return super.paused();
+    }
+    
+    /**
+     * @dev Every balance change goes through _update, so pausing here freezes the whole token;
+     *      emergencyWithdraw alone calls the base _update to stay available
      */
-    function emergencyPause() external onlyOwner {
-        // Implement emergency pause logic
-        // This would prevent all transfers temporarily
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal override whenNotPaused returns (euint64 transferred) {
+        return super._update(from, to, amount);
     }
 }
\ No newline at end of file
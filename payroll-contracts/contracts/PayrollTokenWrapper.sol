@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "@fhevm/solidity/config/ZamaConfig.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./PayrollToken.sol";
+
+/**
+ * @title PayrollTokenWrapper
+ * @notice Converts a plain ERC20 (MockUSDZ in development) into confidential payroll tokens and back
+ * @dev Wrapping locks the ERC20 in this contract and mints the same amount of payroll tokens.
+ *      Unwrapping burns payroll tokens and releases the ERC20 once the decryption oracle has
+ *      revealed how much was actually burnt, which is zero if the balance could not cover it.
+ *      The owner of the payroll token must register this contract with setWrapper.
+ */
+contract PayrollTokenWrapper is SepoliaConfig {
+    using SafeERC20 for IERC20;
+
+    IERC20 public immutable underlying;
+    PayrollToken public immutable payrollToken;
+
+    // Receiver of each pending unwrap, by decryption request id
+    mapping(uint256 => address) private unwrapReceivers;
+
+    event Wrapped(address indexed from, address indexed to, uint64 amount);
+    event UnwrapRequested(address indexed from, address indexed to, uint256 indexed requestId);
+    event UnwrapFinalized(address indexed to, uint256 indexed requestId, uint64 amount);
+
+    constructor(address _underlying, address _payrollToken) {
+        require(
+            IERC20Metadata(_underlying).decimals() == PayrollToken(_payrollToken).decimals(),
+            "Decimals mismatch"
+        );
+
+        underlying = IERC20(_underlying);
+        payrollToken = PayrollToken(_payrollToken);
+    }
+
+    /**
+     * @notice Deposit ERC20 tokens and receive the same amount of confidential payroll tokens
+     * @dev The caller must have approved this contract on the underlying ERC20
+     * @param to Account credited with the payroll tokens, typically a payroll treasury
+     * @param amount Amount of underlying tokens to wrap
+     */
+    function wrap(address to, uint64 amount) external {
+        underlying.safeTransferFrom(msg.sender, address(this), amount);
+        payrollToken.mintWrapped(to, amount);
+
+        emit Wrapped(msg.sender, to, amount);
+    }
+
+    /**
+     * @notice Burn confidential payroll tokens and release the underlying ERC20 to `to`
+     * @dev The ERC20 is sent by finalizeUnwrap once the burnt amount has been decrypted
+     * @param from Account the payroll tokens are burnt from, the caller or one it operates for
+     * @param to Recipient of the underlying tokens
+     * @param encryptedAmount Encrypted amount to unwrap
+     * @param inputProof Proof for the encrypted amount input
+     * @return requestId Identifier of the decryption request
+     */
+    function unwrap(
+        address from,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (uint256 requestId) {
+        require(from == msg.sender || payrollToken.isOperator(from, msg.sender), "Not authorized to unwrap");
+        require(to != address(0), "Invalid receiver");
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        FHE.allowTransient(amount, address(payrollToken));
+        euint64 burnt = payrollToken.burnWrapped(from, amount);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(burnt);
+        requestId = FHE.requestDecryption(cts, this.finalizeUnwrap.selector);
+        unwrapReceivers[requestId] = to;
+
+        emit UnwrapRequested(from, to, requestId);
+    }
+
+    /**
+     * @notice Decryption oracle callback releasing the underlying tokens of an unwrap
+     * @param requestId Identifier of the decryption request
+     * @param cleartexts ABI-encoded decrypted amount of payroll tokens burnt
+     * @param decryptionProof KMS signatures over the decryption result
+     */
+    function finalizeUnwrap(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        uint64 amount = abi.decode(cleartexts, (uint64));
+
+        address to = unwrapReceivers[requestId];
+        require(to != address(0), "Unknown unwrap request");
+        delete unwrapReceivers[requestId];
+
+        if (amount != 0) {
+            underlying.safeTransfer(to, amount);
+        }
+
+        emit UnwrapFinalized(to, requestId, amount);
+    }
+}
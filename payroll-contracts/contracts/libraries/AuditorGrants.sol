@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+/**
+ * @title AuditorGrants
+ * @notice Time-bounded, period-scoped auditor access to employers, with the history of every grant
+ * @dev An auditor holds at most one grant per employer; a new grant ends the previous one
+ */
+library AuditorGrants {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    struct Grant {
+        address auditor;
+        address employer;
+        uint256 startsAt;
+        uint256 expiresAt; // access lapses at this timestamp
+        uint256 fromPeriod; // first pay period the auditor may report on
+        uint256 toPeriod; // last pay period the auditor may report on
+        uint256 endedAt; // set when revoked or replaced by a newer grant
+    }
+
+    struct Registry {
+        Grant[] grants; // every grant ever made, by grant id
+        EnumerableSet.UintSet live; // ids of the grants not revoked or replaced
+        // current grant id + 1 by employer and auditor, 0 when none
+        mapping(address => mapping(address => uint256)) grantOf;
+    }
+
+    /**
+     * @notice Record a new grant, ending the auditor's previous grant for the employer
+     * @return grantId Identifier of the grant
+     */
+    function grant(
+        Registry storage self,
+        address auditor,
+        address employer,
+        uint256 startsAt,
+        uint256 expiresAt,
+        uint256 fromPeriod,
+        uint256 toPeriod
+    ) external returns (uint256 grantId) {
+        require(startsAt < expiresAt && expiresAt > block.timestamp, "Invalid grant window");
+        require(fromPeriod <= toPeriod, "Invalid period scope");
+
+        if (self.grantOf[employer][auditor] != 0) {
+            end(self, auditor, employer);
+        }
+
+        grantId = self.grants.length;
+        self.grants.push(Grant({
+            auditor: auditor,
+            employer: employer,
+            startsAt: startsAt,
+            expiresAt: expiresAt,
+            fromPeriod: fromPeriod,
+            toPeriod: toPeriod,
+            endedAt: 0
+        }));
+        self.live.add(grantId);
+        self.grantOf[employer][auditor] = grantId + 1;
+    }
+
+    /**
+     * @notice End the auditor's current grant for the employer
+     */
+    function end(Registry storage self, address auditor, address employer) public {
+        uint256 current = self.grantOf[employer][auditor];
+        require(current != 0, "Auditor has no access");
+
+        self.grants[current - 1].endedAt = block.timestamp;
+        self.live.remove(current - 1);
+        delete self.grantOf[employer][auditor];
+    }
+
+    /**
+     * @notice Check whether the auditor's current grant for the employer is in effect right now
+     */
+    function isInEffect(Registry storage self, address auditor, address employer) internal view returns (bool) {
+        uint256 current = self.grantOf[employer][auditor];
+        return current != 0 && _isInEffect(self.grants[current - 1]);
+    }
+
+    /**
+     * @notice Check whether the auditor's current grant for the employer covers a pay period
+     */
+    function covers(
+        Registry storage self,
+        address auditor,
+        address employer,
+        uint256 payPeriod
+    ) internal view returns (bool) {
+        uint256 current = self.grantOf[employer][auditor];
+        if (current == 0) return false;
+
+        Grant storage scope = self.grants[current - 1];
+        return payPeriod >= scope.fromPeriod && payPeriod <= scope.toPeriod;
+    }
+
+    /**
+     * @notice Check whether a grant is in effect right now
+     */
+    function isGrantInEffect(Registry storage self, uint256 grantId) internal view returns (bool) {
+        return _isInEffect(self.grants[grantId]);
+    }
+
+    function _isInEffect(Grant storage current) private view returns (bool) {
+        return current.endedAt == 0 && block.timestamp >= current.startsAt && block.timestamp < current.expiresAt;
+    }
+}
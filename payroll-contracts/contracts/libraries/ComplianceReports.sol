@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "./EmployeeRegistry.sol";
+import "./PayrollTypes.sol";
+
+/**
+ * @title ComplianceReports
+ * @notice Encrypted aggregates over an employer's roster: compliance reports, salary statistics
+ *         and salary compliance checks
+ * @dev Only aggregates and per-employee compliance flags are shared with the calling auditor.
+ *      Callers check the auditor's access and the cohort size and emit the events.
+ */
+library ComplianceReports {
+    using EmployeeRegistry for EmployeeRegistry.Registry;
+
+    /**
+     * @notice Store a report of the year-to-date pay and tax totals for the current pay period
+     * @return reportHash Hash identifying the report
+     */
+    function generate(EmployerState storage state, address employer) external returns (bytes32 reportHash) {
+        euint64 totalPaid = FHE.asEuint64(0);
+        euint64 totalTax = FHE.asEuint64(0);
+
+        // Aggregate encrypted values
+        uint256 employeeCount = state.employeeRegistry.length();
+        for (uint256 i = 0; i < employeeCount; i++) {
+            EmployeeData storage employee = state.employees[state.employeeRegistry.at(i)];
+
+            totalPaid = FHE.add(totalPaid, employee.encryptedYTDEarnings);
+            totalTax = FHE.add(totalTax, employee.encryptedYTDTax);
+        }
+
+        ComplianceReport storage report = state.complianceReports.push();
+        report.payPeriod = state.currentPayPeriod;
+        report.employeeCount = employeeCount;
+        report.generatedAt = block.timestamp;
+        report.generatedBy = msg.sender;
+        report.encryptedTotalPaid = totalPaid;
+        report.encryptedTotalTax = totalTax;
+        state.complianceReportsByPeriod[state.currentPayPeriod].push(state.complianceReports.length - 1);
+
+        // Create report hash without revealing values
+        reportHash = hash(employer, report);
+        report.reportHash = reportHash;
+
+        // Allow auditor to decrypt aggregated values only
+        FHE.allowThis(totalPaid);
+        FHE.allowThis(totalTax);
+        FHE.allow(totalPaid, msg.sender);
+        FHE.allow(totalTax, msg.sender);
+    }
+
+    /**
+     * @notice Compute encrypted salary statistics over the active employees for the caller
+     * @dev The average divides the encrypted total by the plaintext employee count, rounding down.
+     *      The results replace the caller's previous statistics.
+     */
+    function generateStatistics(EmployerState storage state) external returns (uint256 employeeCount) {
+        employeeCount = state.employeeRegistry.length();
+        require(employeeCount > 0, "No active employees");
+
+        euint64 total = state.employees[state.employeeRegistry.at(0)].encryptedSalary;
+        euint64 minimum = total;
+        euint64 maximum = total;
+        for (uint256 i = 1; i < employeeCount; i++) {
+            euint64 salary = state.employees[state.employeeRegistry.at(i)].encryptedSalary;
+
+            total = FHE.add(total, salary);
+            minimum = FHE.min(minimum, salary);
+            maximum = FHE.max(maximum, salary);
+        }
+        euint64 average = FHE.div(total, uint64(employeeCount));
+
+        state.salaryStatistics[msg.sender] = SalaryStatistics({
+            employeeCount: employeeCount,
+            generatedAt: block.timestamp,
+            total: total,
+            average: average,
+            minimum: minimum,
+            maximum: maximum
+        });
+        FHE.allowThis(total);
+        FHE.allowThis(average);
+        FHE.allowThis(minimum);
+        FHE.allowThis(maximum);
+        FHE.allow(total, msg.sender);
+        FHE.allow(average, msg.sender);
+        FHE.allow(minimum, msg.sender);
+        FHE.allow(maximum, msg.sender);
+    }
+
+    /**
+     * @notice Check every salary against the legal minimum and the employee's band
+     * @dev The caller can decrypt the violation count and a flag per employee, true when compliant
+     * @return violationCount Encrypted number of employees paid below the minimum or outside their band
+     */
+    function checkSalaries(EmployerState storage state) external returns (euint64 violationCount) {
+        euint64 zero = FHE.asEuint64(0);
+        euint64 one = FHE.asEuint64(1);
+        violationCount = zero;
+
+        uint256 employeeCount = state.employeeRegistry.length();
+        for (uint256 i = 0; i < employeeCount; i++) {
+            address employee = state.employeeRegistry.at(i);
+            euint64 salary = state.employees[employee].encryptedSalary;
+
+            ebool compliant = FHE.ge(salary, state.minimumSalary);
+            uint256 band = state.salaryBandOf[employee];
+            if (band != 0) {
+                SalaryBand storage salaryBand = state.salaryBands[band - 1];
+                compliant = FHE.and(compliant, FHE.ge(salary, salaryBand.minSalary));
+                compliant = FHE.and(compliant, FHE.le(salary, salaryBand.maxSalary));
+            }
+
+            violationCount = FHE.add(violationCount, FHE.select(compliant, zero, one));
+            state.salaryCompliant[employee] = compliant;
+            FHE.allowThis(compliant);
+            FHE.allow(compliant, msg.sender);
+        }
+
+        state.salaryViolationCount = violationCount;
+        FHE.allowThis(violationCount);
+        FHE.allow(violationCount, msg.sender);
+    }
+
+    /**
+     * @notice Hash identifying a compliance report, covering its cleartext totals once published
+     */
+    function hash(address employer, ComplianceReport storage report) internal view returns (bytes32) {
+        if (!report.totalsPublished) {
+            return keccak256(abi.encodePacked(employer, report.payPeriod, report.employeeCount, report.generatedAt));
+        }
+        return keccak256(abi.encodePacked(
+            employer,
+            report.payPeriod,
+            report.employeeCount,
+            report.generatedAt,
+            report.totalPaid,
+            report.totalTax
+        ));
+    }
+}
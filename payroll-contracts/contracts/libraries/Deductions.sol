@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "./PayrollTypes.sol";
+
+/**
+ * @title Deductions
+ * @notice Deduction types of an employer, the order they are applied in and what each employee pays
+ * @dev The amounts are withheld by PayrollPayments when a salary is paid. Callers emit the events.
+ */
+library Deductions {
+    uint256 internal constant MAX_DEDUCTION_TYPES = 10;
+
+    /**
+     * @notice Define a deduction type, applied after the existing ones
+     * @return deductionTypeId Identifier of the new deduction type
+     */
+    function addType(
+        EmployerState storage state,
+        string calldata name,
+        address payee,
+        bool isRate
+    ) external returns (uint256 deductionTypeId) {
+        require(state.deductionTypes.length < MAX_DEDUCTION_TYPES, "Too many deduction types");
+        require(payee != address(0), "Invalid payee");
+
+        deductionTypeId = state.deductionTypes.length;
+        state.deductionTypes.push(DeductionType({name: name, payee: payee, isRate: isRate, isActive: true}));
+        state.deductionOrder.push(deductionTypeId);
+    }
+
+    /**
+     * @notice Stop withholding a deduction type
+     */
+    function deactivateType(EmployerState storage state, uint256 deductionTypeId) external {
+        require(deductionTypeId < state.deductionTypes.length, "Deduction type not found");
+
+        state.deductionTypes[deductionTypeId].isActive = false;
+    }
+
+    /**
+     * @notice Replace the order deductions are applied in
+     * @param order Every deduction type id, exactly once
+     */
+    function setOrder(EmployerState storage state, uint256[] calldata order) external {
+        uint256 typeCount = state.deductionTypes.length;
+        require(order.length == typeCount, "Invalid deduction order");
+
+        bool[] memory seen = new bool[](typeCount);
+        for (uint256 i = 0; i < typeCount; i++) {
+            require(order[i] < typeCount && !seen[order[i]], "Invalid deduction order");
+            seen[order[i]] = true;
+        }
+        state.deductionOrder = order;
+    }
+
+    /**
+     * @notice Set what an employee pays for a deduction type, decryptable by the employee
+     * @param value Encrypted amount per payment, or rate in basis points for rate types
+     */
+    function setEmployeeValue(
+        EmployerState storage state,
+        address employee,
+        uint256 deductionTypeId,
+        euint64 value
+    ) external {
+        require(state.employees[employee].isActive, "Employee not found");
+        require(deductionTypeId < state.deductionTypes.length, "Deduction type not found");
+
+        state.deductions[employee][deductionTypeId] = value;
+        FHE.allowThis(value);
+        FHE.allow(value, employee);
+    }
+}
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/**
+ * @title EmployeeRegistry
+ * @notice Enumerable set of employee addresses used to iterate the payroll roster
+ * @dev Removal uses swap-and-pop, so indexes are not stable across removals
+ */
+library EmployeeRegistry {
+    struct Registry {
+        address[] members;
+        // 1-based position in `members`, 0 means "not registered"
+        mapping(address => uint256) positions;
+    }
+
+    /**
+     * @notice Add an address to the registry
+     * @return added False if the address was already registered
+     */
+    function add(Registry storage self, address account) internal returns (bool added) {
+        if (self.positions[account] != 0) return false;
+
+        self.members.push(account);
+        self.positions[account] = self.members.length;
+        return true;
+    }
+
+    /**
+     * @notice Remove an address by moving the last member into its slot
+     * @return removed False if the address was not registered
+     */
+    function remove(Registry storage self, address account) internal returns (bool removed) {
+        uint256 position = self.positions[account];
+        if (position == 0) return false;
+
+        uint256 index = position - 1;
+        uint256 lastIndex = self.members.length - 1;
+
+        if (index != lastIndex) {
+            address last = self.members[lastIndex];
+            self.members[index] = last;
+            self.positions[last] = position;
+        }
+
+        self.members.pop();
+        delete self.positions[account];
+        return true;
+    }
+
+    /**
+     * @notice Check whether an address is registered
+     */
+    function contains(Registry storage self, address account) internal view returns (bool) {
+        return self.positions[account] != 0;
+    }
+
+    /**
+     * @notice Number of registered addresses
+     */
+    function length(Registry storage self) internal view returns (uint256) {
+        return self.members.length;
+    }
+
+    /**
+     * @notice Address stored at `index`
+     */
+    function at(Registry storage self, uint256 index) internal view returns (address) {
+        require(index < self.members.length, "Index out of bounds");
+        return self.members[index];
+    }
+
+    /**
+     * @notice Current index of a registered address
+     */
+    function indexOf(Registry storage self, address account) internal view returns (uint256) {
+        uint256 position = self.positions[account];
+        require(position != 0, "Not registered");
+        return position - 1;
+    }
+
+    /**
+     * @notice Page through registered addresses
+     * @param offset Index of the first address to return
+     * @param limit Maximum number of addresses to return
+     */
+    function slice(
+        Registry storage self,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (address[] memory page) {
+        uint256 total = self.members.length;
+        if (offset >= total) return new address[](0);
+
+        // Clamped before adding so a limit of type(uint256).max cannot overflow
+        uint256 end = limit > total - offset ? total : offset + limit;
+
+        page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = self.members[i];
+        }
+    }
+}
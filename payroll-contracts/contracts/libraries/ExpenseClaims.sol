@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./PayrollTypes.sol";
+
+/**
+ * @title ExpenseClaims
+ * @notice Encrypted expense claims of an employer's employees and their review
+ * @dev Approved amounts are added to the employee's pending reimbursement, which the next salary
+ *      payment pays untaxed. Callers check who may review and emit the events.
+ */
+library ExpenseClaims {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    uint8 internal constant CLAIM_STATUS_PENDING = 1;
+    uint8 internal constant CLAIM_STATUS_APPROVED = 2;
+    uint8 internal constant CLAIM_STATUS_REJECTED = 3;
+
+    /**
+     * @notice Store a claim of the caller, decryptable by the caller, the employer and its approvers
+     * @return claimId Identifier of the claim
+     */
+    function submit(
+        EmployerState storage state,
+        address employer,
+        euint64 amount,
+        bytes32 receiptHash
+    ) external returns (uint256 claimId) {
+        require(receiptHash != bytes32(0), "Invalid receipt hash");
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, employer);
+        uint256 approverCount = state.expenseApprovers.length();
+        for (uint256 i = 0; i < approverCount; i++) {
+            FHE.allow(amount, state.expenseApprovers.at(i));
+        }
+
+        claimId = state.expenseClaims.length;
+        state.expenseClaims.push(ExpenseClaim({
+            employee: msg.sender,
+            receiptHash: receiptHash,
+            encryptedAmount: amount,
+            submittedAt: block.timestamp,
+            status: CLAIM_STATUS_PENDING
+        }));
+    }
+
+    /**
+     * @notice Settle a pending claim, adding approved amounts to the employee's reimbursement
+     * @dev The claimant cannot review their own claim, even when they are an approver
+     * @param status CLAIM_STATUS_APPROVED or CLAIM_STATUS_REJECTED
+     */
+    function review(EmployerState storage state, uint256 claimId, uint8 status) external {
+        require(claimId < state.expenseClaims.length, "Claim not found");
+
+        ExpenseClaim storage claim = state.expenseClaims[claimId];
+        require(claim.employee != msg.sender, "Claimant cannot review");
+        require(claim.status == CLAIM_STATUS_PENDING, "Claim already reviewed");
+        EmployeeData storage employee = state.employees[claim.employee];
+        require(employee.isActive, "Employee not found");
+
+        claim.status = status;
+        if (status != CLAIM_STATUS_APPROVED) return;
+
+        employee.encryptedReimbursement = FHE.add(employee.encryptedReimbursement, claim.encryptedAmount);
+        FHE.allowThis(employee.encryptedReimbursement);
+        FHE.allow(employee.encryptedReimbursement, claim.employee);
+    }
+}
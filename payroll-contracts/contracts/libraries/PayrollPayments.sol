@@ -0,0 +1,611 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "../PayrollToken.sol";
+import "./PayrollTypes.sol";
+import "./TaxBrackets.sol";
+
+/**
+ * @title PayrollPayments
+ * @notice Salary accrual and the payslip engine: tax, deductions, advances, reimbursements and
+ *         payout splits, paid out of an employer's treasury and recorded in the payment history
+ * @dev Linked into ConfidentialPayrollSystem and run by delegatecall, so encrypted values are
+ *      owned by the payroll system. Callers emit the payment events.
+ */
+library PayrollPayments {
+    using TaxBrackets for TaxBrackets.Bracket[];
+
+    uint256 internal constant DAYS_PER_YEAR = 365;
+    uint256 internal constant SECONDS_PER_YEAR = DAYS_PER_YEAR * 1 days;
+    // Longest window a streamed salary accrues in at once, whatever the pay period
+    uint256 internal constant MAX_STREAMING_WINDOW = 30 days;
+    uint64 internal constant BASIS_POINTS = 10_000;
+    uint8 internal constant PAYMENT_TYPE_SALARY = 1;
+    uint8 internal constant PAYMENT_TYPE_BONUS = 2;
+    uint8 internal constant PAYMENT_TYPE_ADVANCE = 4;
+
+    // Amounts making up one payment, kept in memory to keep the stack shallow
+    struct Payslip {
+        euint64 taxAmount;
+        euint64 netPay; // what the employee receives
+        euint64 advanceRecovered;
+        euint64 reimbursement; // approved expense claims, paid on top of the net pay and untaxed
+        euint64[] deductions; // by position in the employer's deduction order
+        euint64 ownPay; // part of the net pay the payout destinations leave for the employee
+        euint64[] payouts; // by position in the employee's payout destinations
+    }
+
+    /**
+     * @notice Pay the salary accrued since an employee's last payment, plus any pending bonus
+     * @param brackets Bracket table of the tax year, empty for the employee's flat rate
+     */
+    function paySalary(
+        EmployerState storage state,
+        TaxBrackets.Bracket[] storage brackets,
+        address employeeAddr
+    ) external returns (bytes32 paymentId) {
+        (euint64 grossPay, euint64 taxAmount) = _accrueGrossPay(state.employees[employeeAddr], brackets);
+        (paymentId, ) = _payEmployee(state, employeeAddr, grossPay, taxAmount, FHE.asEbool(true));
+    }
+
+    /**
+     * @notice Pay one employee within a payroll run, refusing what the run cannot afford
+     * @dev The run's total may exceed neither the treasury balance at the start of the run nor
+     *      the employer's period budget; refused and failed payments add to the run's shortfall.
+     *      Both count the approved expense reimbursements the payslip pays alongside the salary.
+     */
+    function payRunEmployee(
+        EmployerState storage state,
+        PayrollRun storage run,
+        TaxBrackets.Bracket[] storage brackets,
+        address employeeAddr
+    ) external returns (bytes32 paymentId, ebool paid) {
+        EmployeeData storage employee = state.employees[employeeAddr];
+        (euint64 grossPay, euint64 taxAmount) = _accrueGrossPay(employee, brackets);
+        euint64 payslipTotal = FHE.add(grossPay, employee.encryptedReimbursement);
+        euint64 runTotal = FHE.add(run.encryptedTotal, payslipTotal);
+        ebool withinBudget = FHE.and(
+            FHE.le(runTotal, run.encryptedTreasuryBalance),
+            FHE.le(runTotal, state.config.encryptedPeriodBudget)
+        );
+
+        (paymentId, paid) = _payEmployee(state, employeeAddr, grossPay, taxAmount, withinBudget);
+
+        run.encryptedTotal = FHE.select(paid, runTotal, run.encryptedTotal);
+        run.encryptedShortfall = FHE.add(run.encryptedShortfall, FHE.select(paid, FHE.asEuint64(0), payslipTotal));
+        FHE.allowThis(run.encryptedTotal);
+        FHE.allowThis(run.encryptedShortfall);
+    }
+
+    /**
+     * @notice Pay a bonus immediately; tax is withheld, deductions and advances are not
+     */
+    function payBonus(
+        EmployerState storage state,
+        TaxBrackets.Bracket[] storage brackets,
+        address employeeAddr,
+        euint64 bonus
+    ) external returns (bytes32 paymentId) {
+        EmployeeData storage employee = state.employees[employeeAddr];
+        euint64 taxAmount = brackets.length != 0
+            ? _bracketTaxOnBonus(employee, brackets, bonus)
+            : calculateWithholding(bonus, employee.encryptedTaxRate);
+
+        (paymentId, ) = _settlePayment(state, employeeAddr, bonus, taxAmount, FHE.asEbool(true), PAYMENT_TYPE_BONUS);
+    }
+
+    /**
+     * @notice Pay a wage advance if it fits within the employer's advance limit of the earned salary
+     * @dev Advances are paid untaxed: tax is withheld on the full gross of the next salary payment
+     */
+    function payAdvance(
+        EmployerState storage state,
+        address employer,
+        address employeeAddr,
+        euint64 requested
+    ) external returns (bytes32 paymentId) {
+        EmployeeData storage employee = state.employees[employeeAddr];
+        euint64 zero = FHE.asEuint64(0);
+        ebool approved = _isAdvanceAvailable(state.config, employee, requested);
+
+        ebool paid = FHE.and(approved, _transferConfidentialPayment(
+            state.config,
+            employeeAddr,
+            FHE.select(approved, requested, zero),
+            zero
+        ));
+        euint64 advance = FHE.select(paid, requested, zero);
+
+        employee.encryptedAdvance = FHE.add(employee.encryptedAdvance, advance);
+        FHE.allowThis(employee.encryptedAdvance);
+        FHE.allow(employee.encryptedAdvance, employeeAddr);
+        FHE.allow(employee.encryptedAdvance, employer);
+
+        paymentId = _recordPayment(
+            state.paymentHistory[employeeAddr],
+            employee.employeeId,
+            advance,
+            paid,
+            PAYMENT_TYPE_ADVANCE
+        );
+        FHE.allowThis(advance);
+        FHE.allow(advance, employeeAddr);
+        FHE.allow(advance, employer);
+        FHE.allowThis(paid);
+        FHE.allow(paid, employeeAddr);
+        FHE.allow(paid, employer);
+    }
+
+    /**
+     * @notice Whether an advance fits within the configured share of the earned salary, less what
+     *         was already advanced
+     */
+    function _isAdvanceAvailable(
+        PayrollConfig storage payroll,
+        EmployeeData storage employee,
+        euint64 requested
+    ) private returns (ebool) {
+        euint64 limit = FHE.div(FHE.mul(_earnedSalary(employee), uint64(payroll.advanceLimitBps)), BASIS_POINTS);
+        euint64 available = FHE.select(
+            FHE.le(employee.encryptedAdvance, limit),
+            FHE.sub(limit, employee.encryptedAdvance),
+            FHE.asEuint64(0)
+        );
+        return FHE.le(requested, available);
+    }
+
+    /**
+     * @notice Accrued salary plus any pending bonus or unpaid arrears, and the tax to withhold
+     * @dev Flat-rate tax accrues from the annual tax alongside the salary instead of being
+     *      taken from the gross pay afterwards, keeping the payslip's chain of encrypted
+     *      operations short enough for several payments per transaction
+     * @param brackets Bracket table of the tax year, empty for the employee's flat rate
+     */
+    function _accrueGrossPay(
+        EmployeeData storage employee,
+        TaxBrackets.Bracket[] storage brackets
+    ) private returns (euint64 grossPay, euint64 taxAmount) {
+        (uint256 elapsed, uint256 unit, uint64 divisor) = _accrualWindow(employee);
+
+        // Calculate pay period salary (annual / periods per year), prorated for partial periods
+        euint64 periodSalary = _accrueSalary(employee, elapsed, unit, divisor);
+
+        // Add any bonuses
+        grossPay = FHE.add(periodSalary, employee.encryptedBonus);
+
+        // Calculate tax withholding: the bracket table if any, the flat employee rate otherwise
+        taxAmount = brackets.length != 0
+            ? brackets.computeTax(grossPay, elapsed, divisor)
+            : FHE.add(_accrueTax(employee, elapsed, divisor), employee.encryptedBonusTax);
+    }
+
+    /**
+     * @notice Bracket tax on a bonus paid on its own, stacked on top of a full pay period's salary
+     * @dev Taxing the bonus as the whole income of a period would start it in the lowest bracket
+     */
+    function _bracketTaxOnBonus(
+        EmployeeData storage employee,
+        TaxBrackets.Bracket[] storage brackets,
+        euint64 bonus
+    ) private returns (euint64) {
+        // In days even for streamed salaries, whose per-second products overflow over long periods
+        uint256 period = employee.payPeriodDays;
+        euint64 periodSalary = FHE.div(FHE.mul(employee.encryptedSalary, uint64(period)), uint64(DAYS_PER_YEAR));
+
+        return FHE.sub(
+            brackets.computeTax(FHE.add(periodSalary, bonus), period, DAYS_PER_YEAR),
+            brackets.computeTax(periodSalary, period, DAYS_PER_YEAR)
+        );
+    }
+
+    /**
+     * @notice Pay one employee's gross pay if approved
+     * @param grossPay Encrypted gross pay, from _accrueGrossPay
+     * @param taxAmount Encrypted tax to withhold, from _accrueGrossPay
+     * @param approved Encrypted flag, false to refuse the payment
+     */
+    function _payEmployee(
+        EmployerState storage state,
+        address employeeAddr,
+        euint64 grossPay,
+        euint64 taxAmount,
+        ebool approved
+    ) private returns (bytes32 paymentId, ebool paid) {
+        (paymentId, paid) = _settlePayment(state, employeeAddr, grossPay, taxAmount, approved, PAYMENT_TYPE_SALARY);
+
+        // Reset bonus after payment; whatever was not paid stays owed to the next payment, with its tax
+        EmployeeData storage employee = state.employees[employeeAddr];
+        employee.encryptedBonus = FHE.select(paid, FHE.asEuint64(0), grossPay);
+        employee.encryptedBonusTax = FHE.select(paid, FHE.asEuint64(0), taxAmount);
+        FHE.allowThis(employee.encryptedBonus);
+        FHE.allowThis(employee.encryptedBonusTax);
+    }
+
+    /**
+     * @notice Withhold tax on a gross amount, pay the rest from the treasury and record the payment
+     * @dev Calculates net pay with tax withholding, all operations on encrypted data
+     */
+    function _settlePayment(
+        EmployerState storage state,
+        address employeeAddr,
+        euint64 grossPay,
+        euint64 taxAmount,
+        ebool approved,
+        uint8 paymentType
+    ) private returns (bytes32 paymentId, ebool paid) {
+        Payslip memory payslip = _calculatePayslip(state, employeeAddr, grossPay, taxAmount, paymentType);
+        _splitNetPay(state, employeeAddr, payslip);
+
+        paid = _payOutPayslip(state, employeeAddr, grossPay, approved, payslip);
+        _updateEmployeeTotals(state.employees[employeeAddr], employeeAddr, grossPay, payslip, paid);
+        paymentId = _recordPayslip(state, employeeAddr, payslip, paid, paymentType);
+    }
+
+    /**
+     * @notice Move an approved payslip's money out of the treasury
+     * @dev The treasury must cover the gross pay and reimbursements. That bounds everything the
+     *      payslip draws, since the recovered advance left the treasury already, so none of the
+     *      transfers below can fail on its own. Checking the gross rather than the net amounts,
+     *      and sending the employee's own pay last, keeps the chain of encrypted operations on
+     *      the treasury's escrowed budget short.
+     * @return paid Encrypted flag, false when the payment was refused or the treasury fell short
+     */
+    function _payOutPayslip(
+        EmployerState storage state,
+        address employeeAddr,
+        euint64 grossPay,
+        ebool approved,
+        Payslip memory payslip
+    ) private returns (ebool paid) {
+        euint64 zero = FHE.asEuint64(0);
+        paid = FHE.and(approved, FHE.le(
+            FHE.add(grossPay, payslip.reimbursement),
+            PayrollToken(state.config.paymentToken).treasuryBudgetOf(state.config.treasuryAddress)
+        ));
+
+        _payOutDeductions(state, payslip.deductions, paid);
+        _payOutDestinations(state, employeeAddr, payslip.payouts, paid);
+
+        // Transfer encrypted payment from the treasury to the employee; refused payments move nothing.
+        // The employee's own address gets what the payout destinations leave, plus reimbursements.
+        euint64 ownGross = FHE.add(payslip.ownPay, FHE.add(payslip.reimbursement, payslip.taxAmount));
+        _transferConfidentialPayment(
+            state.config,
+            employeeAddr,
+            FHE.select(paid, ownGross, zero),
+            FHE.select(paid, payslip.taxAmount, zero)
+        );
+    }
+
+    /**
+     * @notice Settle advances and reimbursements and add a payment to the year-to-date totals
+     * @dev Only payments that went through count; reimbursements of refused payments stay owed to
+     *      the next salary payment
+     */
+    function _updateEmployeeTotals(
+        EmployeeData storage employee,
+        address employeeAddr,
+        euint64 grossPay,
+        Payslip memory payslip,
+        ebool paid
+    ) private {
+        euint64 zero = FHE.asEuint64(0);
+        employee.encryptedAdvance = FHE.sub(
+            employee.encryptedAdvance,
+            FHE.select(paid, payslip.advanceRecovered, zero)
+        );
+        FHE.allowThis(employee.encryptedAdvance);
+        FHE.allow(employee.encryptedAdvance, employeeAddr);
+
+        payslip.reimbursement = FHE.select(paid, payslip.reimbursement, zero);
+        employee.encryptedReimbursement = FHE.sub(employee.encryptedReimbursement, payslip.reimbursement);
+        FHE.allowThis(employee.encryptedReimbursement);
+        FHE.allow(employee.encryptedReimbursement, employeeAddr);
+
+        employee.encryptedYTDEarnings = FHE.add(employee.encryptedYTDEarnings, FHE.select(paid, grossPay, zero));
+        employee.encryptedYTDTax = FHE.add(employee.encryptedYTDTax, FHE.select(paid, payslip.taxAmount, zero));
+        FHE.allowThis(employee.encryptedYTDEarnings);
+        FHE.allowThis(employee.encryptedYTDTax);
+    }
+
+    /**
+     * @notice Store a payment, its deductions and its reimbursement in the employee's history
+     */
+    function _recordPayslip(
+        EmployerState storage state,
+        address employeeAddr,
+        Payslip memory payslip,
+        ebool paid,
+        uint8 paymentType
+    ) private returns (bytes32 paymentId) {
+        EmployeeData storage employee = state.employees[employeeAddr];
+        euint64 netPaid = FHE.select(paid, payslip.netPay, FHE.asEuint64(0));
+        paymentId = _recordPayment(state.paymentHistory[employeeAddr], employee.employeeId, netPaid, paid, paymentType);
+        _recordDeductions(state, employeeAddr, paymentId, payslip.deductions);
+        if (paymentType == PAYMENT_TYPE_SALARY) {
+            state.payslipReimbursements[paymentId] = payslip.reimbursement;
+            FHE.allowThis(payslip.reimbursement);
+            FHE.allow(payslip.reimbursement, employeeAddr);
+        }
+
+        FHE.allowThis(netPaid);
+        FHE.allow(netPaid, employeeAddr);
+        FHE.allowThis(paid);
+        FHE.allow(paid, employeeAddr);
+        FHE.allow(paid, msg.sender);
+    }
+
+    /**
+     * @notice Split a gross payment into tax, deductions, recovered advances and net pay
+     * @dev Tax is withheld from the gross pay. Salary payments then withhold the employee's
+     *      deductions in the employer's order and recover outstanding wage advances, each capped
+     *      at what is left of the net pay, and add approved expense reimbursements.
+     */
+    function _calculatePayslip(
+        EmployerState storage state,
+        address employeeAddr,
+        euint64 grossPay,
+        euint64 taxAmount,
+        uint8 paymentType
+    ) private returns (Payslip memory payslip) {
+        EmployeeData storage employee = state.employees[employeeAddr];
+
+        payslip.taxAmount = taxAmount;
+        payslip.netPay = FHE.sub(grossPay, payslip.taxAmount);
+        payslip.advanceRecovered = FHE.asEuint64(0);
+        payslip.reimbursement = FHE.asEuint64(0);
+        payslip.deductions = new euint64[](state.deductionOrder.length);
+        if (paymentType != PAYMENT_TYPE_SALARY) {
+            return payslip;
+        }
+
+        for (uint256 i = 0; i < state.deductionOrder.length; i++) {
+            uint256 deductionTypeId = state.deductionOrder[i];
+            euint64 value = state.deductions[employeeAddr][deductionTypeId];
+            if (!state.deductionTypes[deductionTypeId].isActive || !FHE.isInitialized(value)) continue;
+
+            euint64 amount = state.deductionTypes[deductionTypeId].isRate
+                ? FHE.div(FHE.mul(grossPay, value), BASIS_POINTS)
+                : value;
+            amount = FHE.min(amount, payslip.netPay);
+            payslip.netPay = FHE.sub(payslip.netPay, amount);
+            payslip.deductions[i] = amount;
+        }
+
+        payslip.advanceRecovered = FHE.min(employee.encryptedAdvance, payslip.netPay);
+        payslip.netPay = FHE.sub(payslip.netPay, payslip.advanceRecovered);
+        payslip.reimbursement = employee.encryptedReimbursement;
+    }
+
+    /**
+     * @notice Share of the net pay going to each of the employee's payout destinations
+     * @dev Each destination is capped at what the earlier ones left of the net pay
+     */
+    function _splitNetPay(EmployerState storage state, address employeeAddr, Payslip memory payslip) private {
+        PayoutDestination[] storage destinations = state.payoutDestinations[employeeAddr];
+        payslip.payouts = new euint64[](destinations.length);
+
+        euint64 remaining = payslip.netPay;
+        for (uint256 i = 0; i < destinations.length; i++) {
+            euint64 amount = destinations[i].isRate
+                ? FHE.div(FHE.mul(payslip.netPay, destinations[i].value), BASIS_POINTS)
+                : destinations[i].value;
+            amount = FHE.min(amount, remaining);
+            remaining = FHE.sub(remaining, amount);
+            payslip.payouts[i] = amount;
+        }
+        payslip.ownPay = remaining;
+    }
+
+    /**
+     * @notice Send the split-off net pay to the employee's payout destinations
+     * @param amounts Amounts by position in the payout destinations, from _splitNetPay
+     * @param paid Encrypted outcome of the payment; nothing is sent for refused payments
+     */
+    function _payOutDestinations(
+        EmployerState storage state,
+        address employeeAddr,
+        euint64[] memory amounts,
+        ebool paid
+    ) private {
+        PayoutDestination[] storage destinations = state.payoutDestinations[employeeAddr];
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            _transferConfidentialPayment(
+                state.config,
+                destinations[i].wallet,
+                FHE.select(paid, amounts[i], zero),
+                zero
+            );
+        }
+    }
+
+    /**
+     * @notice Pay the deductions of a payment to their payees
+     * @param amounts Deductions by position in the deduction order, from _calculatePayslip;
+     *        set to zero for refused payments
+     * @param paid Encrypted outcome of the payment
+     */
+    function _payOutDeductions(EmployerState storage state, euint64[] memory amounts, ebool paid) private {
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            if (!FHE.isInitialized(amounts[i])) continue;
+
+            amounts[i] = FHE.select(paid, amounts[i], zero);
+            address payee = state.deductionTypes[state.deductionOrder[i]].payee;
+            _transferConfidentialPayment(state.config, payee, amounts[i], zero);
+        }
+    }
+
+    /**
+     * @notice Record the deductions of a payment as payslip lines and in the year-to-date totals
+     * @param amounts Deductions by position in the deduction order, from _payOutDeductions
+     */
+    function _recordDeductions(
+        EmployerState storage state,
+        address employeeAddr,
+        bytes32 paymentId,
+        euint64[] memory amounts
+    ) private {
+        for (uint256 i = 0; i < amounts.length; i++) {
+            if (!FHE.isInitialized(amounts[i])) continue;
+
+            uint256 deductionTypeId = state.deductionOrder[i];
+            euint64 amount = amounts[i];
+
+            euint64 ytd = state.deductionsYTD[employeeAddr][deductionTypeId];
+            ytd = FHE.isInitialized(ytd) ? FHE.add(ytd, amount) : amount;
+            state.deductionsYTD[employeeAddr][deductionTypeId] = ytd;
+            FHE.allowThis(ytd);
+            FHE.allow(ytd, employeeAddr);
+
+            state.payslipLines[paymentId].push(PayslipLine({deductionTypeId: deductionTypeId, amount: amount}));
+            FHE.allowThis(amount);
+            FHE.allow(amount, employeeAddr);
+        }
+    }
+
+    function _recordPayment(
+        IPayrollSystem.PaymentRecord[] storage history,
+        bytes32 employeeId,
+        euint64 netPaid,
+        ebool paid,
+        uint8 paymentType
+    ) private returns (bytes32 paymentId) {
+        paymentId = keccak256(abi.encode(employeeId, history.length));
+        history.push(IPayrollSystem.PaymentRecord({
+            paymentId: paymentId,
+            employeeId: employeeId,
+            encryptedAmount: netPaid,
+            paymentType: paymentType,
+            paymentDate: block.timestamp,
+            isProcessed: paid
+        }));
+    }
+
+    /**
+     * @notice Internal function to transfer encrypted payment
+     * @dev Drawn from the payroll budget the treasury escrowed in the payment token; the treasury
+     *      must have made the payroll system an operator on it
+     * @param payroll Payroll configuration of the paying employer
+     * @param to Recipient address
+     * @param grossPay Encrypted gross pay drawn from the treasury
+     * @param taxAmount Encrypted tax withheld from the gross pay
+     * @return paid Encrypted flag, false when the treasury could not cover the gross pay
+     */
+    function _transferConfidentialPayment(
+        PayrollConfig storage payroll,
+        address to,
+        euint64 grossPay,
+        euint64 taxAmount
+    ) private returns (ebool paid) {
+        FHE.allowTransient(grossPay, payroll.paymentToken);
+        FHE.allowTransient(taxAmount, payroll.paymentToken);
+
+        paid = PayrollToken(payroll.paymentToken).processPayrollPaymentFrom(
+            payroll.treasuryAddress,
+            to,
+            grossPay,
+            taxAmount
+        );
+    }
+
+    /**
+     * @notice Withholding for a gross amount at a basis-point tax rate
+     * @dev gross * rate / 10000; rates are capped at 100% when set, so net pay can never underflow
+     */
+    function calculateWithholding(euint64 grossPay, euint64 taxRateBps) internal returns (euint64 taxAmount) {
+        taxAmount = FHE.div(FHE.mul(grossPay, taxRateBps), BASIS_POINTS);
+    }
+
+    /**
+     * @notice Salary earned in an accrual window, capped at one of the employee's pay periods
+     * @dev The division remainder is carried to the next payment so that a full year of pay
+     *      periods adds up to exactly the annual salary.
+     */
+    function _accrueSalary(
+        EmployeeData storage employee,
+        uint256 elapsed,
+        uint256 unit,
+        uint64 divisor
+    ) private returns (euint64 salary) {
+        // Advance by whole paid units only: the unpaid fraction of a unit and any time
+        // beyond one period stay owed, so a late payment never loses or double-pays wages
+        employee.lastPaymentTimestamp += elapsed * unit;
+
+        euint64 accrued = FHE.add(
+            FHE.mul(employee.encryptedSalary, uint64(elapsed)),
+            employee.encryptedRoundingRemainder
+        );
+
+        salary = FHE.div(accrued, divisor);
+        employee.encryptedRoundingRemainder = FHE.rem(accrued, divisor);
+        FHE.allowThis(employee.encryptedRoundingRemainder);
+    }
+
+    /**
+     * @notice Flat-rate tax on the salary earned in an accrual window
+     * @dev Carries its division remainder like _accrueSalary, so a full year of pay periods
+     *      withholds exactly the annual tax.
+     */
+    function _accrueTax(
+        EmployeeData storage employee,
+        uint256 elapsed,
+        uint64 divisor
+    ) private returns (euint64 tax) {
+        euint64 accrued = FHE.add(
+            FHE.mul(employee.encryptedAnnualTax, uint64(elapsed)),
+            employee.encryptedTaxRoundingRemainder
+        );
+
+        tax = FHE.div(accrued, divisor);
+        employee.encryptedTaxRoundingRemainder = FHE.rem(accrued, divisor);
+        FHE.allowThis(employee.encryptedTaxRoundingRemainder);
+    }
+
+    /**
+     * @notice Salary earned since the last payment, without marking it paid
+     */
+    function _earnedSalary(EmployeeData storage employee) private returns (euint64) {
+        (uint256 elapsed, , uint64 divisor) = _accrualWindow(employee);
+
+        return FHE.div(
+            FHE.add(FHE.mul(employee.encryptedSalary, uint64(elapsed)), employee.encryptedRoundingRemainder),
+            divisor
+        );
+    }
+
+    /**
+     * @notice Accrual units elapsed since the last payment, capped at one of the employee's pay periods
+     * @dev Payroll runs accrue in whole days, in units of 1 / DAYS_PER_YEAR of the annual salary, so a
+     *      calendar year pays the annual salary whatever the period length. Streamed salaries accrue per
+     *      second, in units of 1 / SECONDS_PER_YEAR, and at most MAX_STREAMING_WINDOW at once: that keeps
+     *      salary * seconds within 64 bits for annual salaries up to about 7 million tokens, even when
+     *      the pay period is longer. Time beyond the cap stays owed for the next claim.
+     * @return elapsed Whole units elapsed
+     * @return unit Length of a unit in seconds
+     * @return divisor Units in a year
+     */
+    function _accrualWindow(
+        EmployeeData storage employee
+    ) private view returns (uint256 elapsed, uint256 unit, uint64 divisor) {
+        uint256 window = employee.payPeriodDays * 1 days;
+        if (employee.isStreaming) {
+            unit = 1;
+            divisor = uint64(SECONDS_PER_YEAR);
+            if (window > MAX_STREAMING_WINDOW) {
+                window = MAX_STREAMING_WINDOW;
+            }
+        } else {
+            unit = 1 days;
+            divisor = uint64(DAYS_PER_YEAR);
+        }
+
+        elapsed = (block.timestamp - employee.lastPaymentTimestamp) / unit;
+        uint256 maxElapsed = window / unit;
+        if (elapsed > maxElapsed) {
+            elapsed = maxElapsed;
+        }
+    }
+}
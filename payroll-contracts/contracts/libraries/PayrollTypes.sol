@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./EmployeeRegistry.sol";
+import "../../interfaces/IPayrollSystem.sol";
+
+// Storage types of ConfidentialPayrollSystem, shared with the external libraries that operate on them
+
+struct EmployeeData {
+    bytes32 employeeId;
+    euint64 encryptedSalary;
+    euint64 encryptedBonus;
+    euint64 encryptedBonusTax; // tax withheld from the pending bonus at the flat rate
+    euint64 encryptedTaxRate; // capped at 100%
+    euint64 encryptedAnnualTax; // flat-rate tax on the annual salary, accrued alongside it
+    euint64 encryptedYTDEarnings;
+    euint64 encryptedYTDTax;
+    euint64 encryptedRoundingRemainder;
+    euint64 encryptedTaxRoundingRemainder; // carried like encryptedRoundingRemainder, for the flat-rate tax
+    euint64 encryptedAdvance; // wage advances not yet recovered from salary payments
+    euint64 encryptedReimbursement; // approved expense claims not yet paid
+    uint256 startDate;
+    uint256 lastPaymentTimestamp;
+    uint256 payPeriodDays;
+    uint8 paymentFrequency; // PAYMENT_FREQUENCY_* of the pay period, 0 for other period lengths
+    bool isStreaming; // paid by claimStreamedSalary instead of payroll runs
+    bool isActive;
+}
+
+struct PayrollConfig {
+    uint256 payPeriodDays;
+    address paymentToken;
+    address treasuryAddress;
+    euint64 encryptedPeriodBudget; // set by the employer, the most a single payroll run may pay out
+    uint256 advanceLimitBps; // share of earned, unpaid salary employees may draw early
+    uint256 salaryChangeDelay; // time between approving a salary change and it taking effect
+}
+
+struct PayrollRun {
+    uint256 cursor;
+    uint256 employeeCount;
+    uint256 processedCount; // employees paid, excluding those not yet due
+    uint256 startedAt;
+    uint256 finalizedAt;
+    uint256 taxYear;
+    euint64 encryptedTreasuryBalance; // payroll budget the treasury had escrowed when the run started
+    euint64 encryptedTotal; // gross pay of the run so far
+    euint64 encryptedShortfall; // gross pay refused for lack of budget or funds
+}
+
+struct DeductionType {
+    string name;
+    address payee; // receives the amounts withheld, e.g. an insurer, pension fund or court
+    bool isRate; // per-employee values are basis points of gross pay instead of amounts
+    bool isActive;
+}
+
+struct ExpenseClaim {
+    address employee;
+    bytes32 receiptHash;
+    euint64 encryptedAmount;
+    uint256 submittedAt;
+    uint8 status;
+}
+
+struct ComplianceReport {
+    uint256 payPeriod;
+    uint256 employeeCount;
+    uint256 generatedAt;
+    address generatedBy;
+    euint64 encryptedTotalPaid;
+    euint64 encryptedTotalTax;
+    bytes32 reportHash; // covers the cleartext totals once they are published
+    bool decryptionRequested;
+    bool totalsPublished;
+    uint64 totalPaid;
+    uint64 totalTax;
+}
+
+struct SalaryChange {
+    address employee;
+    euint64 newSalary;
+    address proposer;
+    address approver;
+    uint256 proposedAt;
+    uint256 effectiveAt; // set on approval
+    uint8 status;
+    bytes32 employeeId; // the hire the change was proposed for, so it lapses on removal
+}
+
+struct SalaryStatistics {
+    uint256 employeeCount;
+    uint256 generatedAt;
+    euint64 total; // annual salaries
+    euint64 average;
+    euint64 minimum;
+    euint64 maximum;
+}
+
+struct SalaryBand {
+    string name;
+    uint64 minSalary; // annual
+    uint64 maxSalary; // annual
+}
+
+struct PayoutDestination {
+    address wallet;
+    bool isRate; // value is basis points of the net pay instead of an amount
+    euint64 value;
+}
+
+// A payout destination as submitted by the employee, with its value still an encrypted input
+struct PayoutDestinationInput {
+    address wallet;
+    bool isRate; // value is basis points of the net pay instead of an amount
+    externalEuint64 value;
+}
+
+struct PayslipLine {
+    uint256 deductionTypeId;
+    euint64 amount;
+}
+
+struct EmployerState {
+    string companyName;
+    bool isRegistered;
+    bool isActive;
+    PayrollConfig config;
+    uint256 currentPayPeriod;
+    EmployeeRegistry.Registry employeeRegistry;
+    mapping(address => EmployeeData) employees;
+    mapping(uint256 => PayrollRun) payrollRuns;
+    mapping(address => IPayrollSystem.PaymentRecord[]) paymentHistory;
+    mapping(address => mapping(uint256 => ebool)) paymentStatus;
+    DeductionType[] deductionTypes;
+    uint256[] deductionOrder; // deduction type ids, in the order they are applied
+    mapping(address => mapping(uint256 => euint64)) deductions; // per employee and type: amount or rate
+    mapping(address => mapping(uint256 => euint64)) deductionsYTD;
+    mapping(bytes32 => PayslipLine[]) payslipLines; // deductions withheld, by payment id
+    ExpenseClaim[] expenseClaims;
+    EnumerableSet.AddressSet expenseApprovers;
+    mapping(bytes32 => euint64) payslipReimbursements; // by payment id
+    mapping(address => PayoutDestination[]) payoutDestinations;
+    ComplianceReport[] complianceReports;
+    mapping(uint256 => uint256[]) complianceReportsByPeriod; // report ids by pay period
+    uint64 minimumSalary; // annual legal minimum, 0 when not checked
+    SalaryBand[] salaryBands;
+    mapping(address => uint256) salaryBandOf; // band id + 1, 0 when the employee has no band
+    euint64 salaryViolationCount; // from the latest salary compliance check
+    mapping(address => ebool) salaryCompliant; // per employee, from the latest salary compliance check
+    mapping(address => SalaryStatistics) salaryStatistics; // latest statistics, by requesting auditor
+    SalaryChange[] salaryChanges;
+    EnumerableSet.AddressSet payrollOperators;
+    EnumerableSet.AddressSet salaryApprovers; // operators allowed to approve salary changes
+}
@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "./PayrollPayments.sol";
+import "./PayrollTypes.sol";
+
+/**
+ * @title SalaryChanges
+ * @notice Salary changes of an employer's employees: proposed, approved by a second person and
+ *         applied once the employer's timelock has passed
+ * @dev Callers check the roles of the proposer and the approver and emit the events
+ */
+library SalaryChanges {
+    uint8 internal constant SALARY_CHANGE_PROPOSED = 1;
+    uint8 internal constant SALARY_CHANGE_APPROVED = 2;
+    uint8 internal constant SALARY_CHANGE_EXECUTED = 3;
+    uint8 internal constant SALARY_CHANGE_CANCELLED = 4;
+
+    /**
+     * @notice Record a proposed salary, decryptable by the proposer
+     * @return changeId Identifier of the proposed change
+     */
+    function propose(
+        EmployerState storage state,
+        address employee,
+        euint64 newSalary
+    ) external returns (uint256 changeId) {
+        require(state.employees[employee].isActive, "Employee not found");
+
+        FHE.allowThis(newSalary);
+        FHE.allow(newSalary, msg.sender);
+
+        changeId = state.salaryChanges.length;
+        state.salaryChanges.push(SalaryChange({
+            employee: employee,
+            newSalary: newSalary,
+            proposer: msg.sender,
+            approver: address(0),
+            proposedAt: block.timestamp,
+            effectiveAt: 0,
+            status: SALARY_CHANGE_PROPOSED,
+            employeeId: state.employees[employee].employeeId
+        }));
+    }
+
+    /**
+     * @notice Let the caller decrypt a proposed salary before approving it
+     */
+    function review(EmployerState storage state, uint256 changeId) external {
+        SalaryChange storage change = get(state, changeId);
+        require(change.status == SALARY_CHANGE_PROPOSED, "Salary change not pending");
+
+        FHE.allow(change.newSalary, msg.sender);
+    }
+
+    /**
+     * @notice Approve a proposed change on behalf of the caller, starting its timelock
+     * @return effectiveAt Time from which the change can be applied
+     */
+    function approve(EmployerState storage state, uint256 changeId) external returns (uint256 effectiveAt) {
+        SalaryChange storage change = get(state, changeId);
+        require(change.status == SALARY_CHANGE_PROPOSED, "Salary change not pending");
+        require(change.proposer != msg.sender, "Proposer cannot approve");
+        _employeeOf(state, change);
+
+        effectiveAt = block.timestamp + state.config.salaryChangeDelay;
+        change.approver = msg.sender;
+        change.effectiveAt = effectiveAt;
+        change.status = SALARY_CHANGE_APPROVED;
+    }
+
+    /**
+     * @notice Apply an approved change whose timelock has passed
+     * @return employeeId Identifier of the employee whose salary changed
+     */
+    function execute(EmployerState storage state, uint256 changeId) external returns (bytes32 employeeId) {
+        SalaryChange storage change = get(state, changeId);
+        require(change.status == SALARY_CHANGE_APPROVED, "Salary change not approved");
+        require(block.timestamp >= change.effectiveAt, "Salary change timelocked");
+        EmployeeData storage data = _employeeOf(state, change);
+
+        change.status = SALARY_CHANGE_EXECUTED;
+        euint64 newSalary = change.newSalary;
+
+        data.encryptedSalary = newSalary;
+        data.encryptedAnnualTax = PayrollPayments.calculateWithholding(newSalary, data.encryptedTaxRate);
+        FHE.allowThis(data.encryptedAnnualTax);
+        FHE.allow(newSalary, change.employee);
+
+        return data.employeeId;
+    }
+
+    /**
+     * @notice Withdraw a change that has not taken effect yet
+     */
+    function cancel(EmployerState storage state, uint256 changeId) external {
+        SalaryChange storage change = get(state, changeId);
+        require(
+            change.status == SALARY_CHANGE_PROPOSED || change.status == SALARY_CHANGE_APPROVED,
+            "Salary change not pending"
+        );
+
+        change.status = SALARY_CHANGE_CANCELLED;
+    }
+
+    function get(EmployerState storage state, uint256 changeId) internal view returns (SalaryChange storage) {
+        require(changeId < state.salaryChanges.length, "Salary change not found");
+        return state.salaryChanges[changeId];
+    }
+
+    /**
+     * @dev The employee a change applies to, as long as they were not removed since it was proposed
+     */
+    function _employeeOf(
+        EmployerState storage state,
+        SalaryChange storage change
+    ) private view returns (EmployeeData storage data) {
+        data = state.employees[change.employee];
+        require(data.isActive && data.employeeId == change.employeeId, "Employee not found");
+    }
+}
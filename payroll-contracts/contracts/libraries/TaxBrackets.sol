@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title TaxBrackets
+ * @notice Progressive income tax computed on encrypted gross pay with plaintext brackets
+ * @dev Thresholds are annual amounts and are scaled down to the accrual window before use, so a
+ *      year of partial-period payments owes the same tax as a year of full periods
+ */
+library TaxBrackets {
+    uint64 internal constant BASIS_POINTS = 10_000;
+    uint256 internal constant MAX_BRACKETS = 8;
+
+    struct Bracket {
+        uint64 threshold; // annual income at which this bracket starts
+        uint64 rateBps; // marginal rate in basis points
+    }
+
+    /**
+     * @notice Replace a bracket table after validating it
+     * @dev The first bracket must start at zero and thresholds must strictly increase
+     */
+    function set(Bracket[] storage self, uint64[] calldata thresholds, uint64[] calldata ratesBps) internal {
+        require(thresholds.length == ratesBps.length, "Array length mismatch");
+        require(thresholds.length > 0 && thresholds.length <= MAX_BRACKETS, "Invalid bracket count");
+        require(thresholds[0] == 0, "First bracket must start at zero");
+
+        while (self.length > 0) {
+            self.pop();
+        }
+        for (uint256 i = 0; i < thresholds.length; i++) {
+            require(i == 0 || thresholds[i] > thresholds[i - 1], "Thresholds must increase");
+            require(ratesBps[i] <= BASIS_POINTS, "Rate exceeds 100%");
+            self.push(Bracket({threshold: thresholds[i], rateBps: ratesBps[i]}));
+        }
+    }
+
+    /**
+     * @notice Marginal tax owed on the encrypted gross earned over an accrual window
+     * @dev Each bracket taxes min(gross, upper) - lower when gross is above its lower bound.
+     *      Products are summed before the single division so rounding happens once.
+     * @param elapsed Length of the window in accrual units
+     * @param unitsPerYear Accrual units in a year, the annual thresholds are scaled by elapsed / unitsPerYear
+     */
+    function computeTax(
+        Bracket[] storage self,
+        euint64 grossPay,
+        uint256 elapsed,
+        uint256 unitsPerYear
+    ) internal returns (euint64 taxAmount) {
+        euint64 zero = FHE.asEuint64(0);
+        euint64 weightedTax = zero;
+
+        for (uint256 i = 0; i < self.length; i++) {
+            uint64 lower = uint64((uint256(self[i].threshold) * elapsed) / unitsPerYear);
+
+            euint64 taxable = i + 1 < self.length
+                ? FHE.min(grossPay, uint64((uint256(self[i + 1].threshold) * elapsed) / unitsPerYear))
+                : grossPay;
+            euint64 portion = FHE.select(FHE.gt(grossPay, lower), FHE.sub(taxable, lower), zero);
+
+            weightedTax = FHE.add(weightedTax, FHE.mul(portion, self[i].rateBps));
+        }
+
+        taxAmount = FHE.div(weightedTax, BASIS_POINTS);
+    }
+}
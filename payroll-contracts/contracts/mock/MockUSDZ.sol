@@ -13,6 +13,11 @@ contract MockUSDZ is Ownable, Pausable, ERC20 {
         _mint(account, 10 * 1e6);
     }
 
+    // Owner can mint any amount, e.g. to fund a test treasury
+    function mintTo(address account, uint256 amount) public onlyOwner whenNotPaused {
+        _mint(account, amount);
+    }
+
     /// @notice Be careful with a decimals higher than 9, it will impact the
     /// wrapped token representation.
     function decimals() public pure override returns (uint8) {
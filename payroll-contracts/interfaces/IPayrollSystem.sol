@@ -6,140 +6,158 @@ import {FHE, euint64, ebool, externalEuint64} from "@fhevm/solidity/lib/FHE.sol"
 /**
  * @title IPayrollSystem
  * @notice Core interface for the encrypted payroll system
- * @dev Defines the main functionality for managing encrypted employee payroll data
+ * @dev Defines the main functionality for managing encrypted employee payroll data.
+ *      Employees are addressed by wallet; the `employeeId` assigned on hire identifies
+ *      one employment and can be resolved back with `getEmployeeAddress`.
  */
 interface IPayrollSystem {
     // ============ Events ============
-    
+
     /// @notice Emitted when a new employee is added to the payroll
-    /// @param employeeId The unique identifier for the employee
-    /// @param employer The address of the employer who added the employee
-    event EmployeeAdded(bytes32 indexed employeeId, address indexed employer);
-    
+    /// @param employee The employee wallet address
+    /// @param timestamp The block timestamp of the hire
+    event EmployeeAdded(address indexed employee, uint256 timestamp);
+
     /// @notice Emitted when employee salary is updated
     /// @param employeeId The unique identifier for the employee
     /// @param employer The address of the employer
     event SalaryUpdated(bytes32 indexed employeeId, address indexed employer);
-    
+
     /// @notice Emitted when salary is paid to an employee
     /// @param employeeId The unique identifier for the employee
     /// @param employer The address of the employer
     /// @param paymentId The unique identifier for this payment
     event SalaryPaid(bytes32 indexed employeeId, address indexed employer, bytes32 indexed paymentId);
-    
+
     /// @notice Emitted when employee is removed from payroll
-    /// @param employeeId The unique identifier for the employee
-    /// @param employer The address of the employer
-    event EmployeeRemoved(bytes32 indexed employeeId, address indexed employer);
+    /// @param employee The employee wallet address
+    /// @param timestamp The block timestamp of the removal
+    event EmployeeRemoved(address indexed employee, uint256 timestamp);
 
     // ============ Structs ============
-    
+
     /// @notice Employee information structure (all encrypted except metadata)
     struct Employee {
-        bytes32 employeeId;           // Unique identifier (hash of employee data)
+        bytes32 employeeId;           // Unique identifier assigned on hire
         address employeeAddress;      // Employee's wallet address
-        euint64 encryptedSalary;     // Encrypted monthly salary
-        euint64 encryptedBonus;      // Encrypted bonus amount
-        uint8 paymentFrequency;      // 1=weekly, 2=bi-weekly, 4=monthly
+        euint64 encryptedSalary;     // Encrypted annual salary
+        euint64 encryptedBonus;      // Encrypted bonus owed on the next payment
+        uint8 paymentFrequency;      // 1=weekly, 2=bi-weekly, 4=monthly, 0=other period length
         bool isActive;               // Employment status
         uint256 startDate;           // Employment start date (timestamp)
         uint256 lastPaymentDate;     // Last payment timestamp
     }
-    
+
     /// @notice Payment record structure
     struct PaymentRecord {
         bytes32 paymentId;           // Unique payment identifier
         bytes32 employeeId;          // Employee identifier
-        euint64 encryptedAmount;     // Encrypted payment amount
-        uint8 paymentType;           // 1=salary, 2=bonus, 3=overtime
+        euint64 encryptedAmount;     // Encrypted net amount received
+        uint8 paymentType;           // 1=salary, 2=bonus, 3=overtime, 4=wage advance
         uint256 paymentDate;         // Payment timestamp
-        bool isProcessed;            // Payment processing status
+        ebool isProcessed;           // Encrypted: false when the treasury could not cover the payment
     }
 
     // ============ Core Functions ============
-    
+
     /**
      * @notice Add a new employee to the payroll system
      * @param employeeAddress The wallet address of the employee
-     * @param encryptedSalary The encrypted monthly salary
-     * @param inputProof Proof for the encrypted salary input
-     * @param paymentFrequency Payment frequency (1=weekly, 2=bi-weekly, 4=monthly)
+     * @param encryptedSalary The encrypted annual salary
+     * @param encryptedTaxRate The encrypted tax rate in basis points
+     * @param inputProof Proof for the encrypted inputs
      * @return employeeId The unique identifier generated for the employee
      */
     function addEmployee(
         address employeeAddress,
         externalEuint64 encryptedSalary,
-        bytes calldata inputProof,
-        uint8 paymentFrequency
+        externalEuint64 encryptedTaxRate,
+        bytes calldata inputProof
     ) external returns (bytes32 employeeId);
-    
+
     /**
-     * @notice Update an employee's salary
-     * @param employeeId The unique identifier of the employee
-     * @param newEncryptedSalary The new encrypted salary
+     * @notice Propose a new salary for an employee; it takes effect after a second approval and a timelock
+     * @param employeeAddress The wallet address of the employee
+     * @param newEncryptedSalary The new encrypted annual salary
      * @param inputProof Proof for the encrypted salary input
+     * @return changeId The identifier of the proposed change
      */
-    function updateSalary(
-        bytes32 employeeId,
+    function proposeSalaryChange(
+        address employeeAddress,
         externalEuint64 newEncryptedSalary,
         bytes calldata inputProof
-    ) external;
-    
+    ) external returns (uint256 changeId);
+
     /**
-     * @notice Process salary payment for an employee
-     * @param employeeId The unique identifier of the employee
+     * @notice Pay an employee the salary accrued since their last payment, outside a payroll run
+     * @param employeeAddress The wallet address of the employee
      * @return paymentId The unique identifier for this payment
      */
-    function processSalaryPayment(bytes32 employeeId) external returns (bytes32 paymentId);
-    
+    function processSalaryPayment(address employeeAddress) external returns (bytes32 paymentId);
+
     /**
-     * @notice Process bonus payment for an employee
-     * @param employeeId The unique identifier of the employee
-     * @param encryptedBonusAmount The encrypted bonus amount
+     * @notice Pay a bonus to an employee immediately
+     * @param employeeAddress The wallet address of the employee
+     * @param encryptedBonusAmount The encrypted gross bonus amount
      * @param inputProof Proof for the encrypted bonus input
      * @return paymentId The unique identifier for this payment
      */
     function processBonusPayment(
-        bytes32 employeeId,
+        address employeeAddress,
         externalEuint64 encryptedBonusAmount,
         bytes calldata inputProof
     ) external returns (bytes32 paymentId);
-    
+
     /**
      * @notice Remove an employee from the payroll
-     * @param employeeId The unique identifier of the employee
+     * @param employeeAddress The wallet address of the employee
      */
-    function removeEmployee(bytes32 employeeId) external;
-    
+    function removeEmployee(address employeeAddress) external;
+
     /**
-     * @notice Get employee information (only accessible by authorized parties)
-     * @param employeeId The unique identifier of the employee
+     * @notice Get employee information (encrypted fields are only decryptable by authorized parties)
+     * @param employeeAddress The wallet address of the employee
+     * @param employer The address of the employer
      * @return employee The employee information struct
      */
-    function getEmployee(bytes32 employeeId) external view returns (Employee memory employee);
-    
+    function getEmployee(address employeeAddress, address employer) external view returns (Employee memory employee);
+
     /**
-     * @notice Get encrypted salary for an employee (only accessible by authorized parties)
-     * @param employeeId The unique identifier of the employee
-     * @return encryptedSalary The encrypted salary amount
+     * @notice Get encrypted salary for an employee (only decryptable by authorized parties)
+     * @param employeeAddress The wallet address of the employee
+     * @param employer The address of the employer
+     * @return encryptedSalary The encrypted annual salary
      */
-    function getEmployeeSalary(bytes32 employeeId) external view returns (euint64 encryptedSalary);
-    
+    function getEmployeeSalary(
+        address employeeAddress,
+        address employer
+    ) external view returns (euint64 encryptedSalary);
+
     /**
-     * @notice Check if employee is eligible for payment
-     * @param employeeId The unique identifier of the employee
-     * @return eligible Encrypted boolean indicating eligibility
+     * @notice Check if a full pay period has elapsed since the employee was last paid
+     * @param employeeAddress The wallet address of the employee
+     * @param employer The address of the employer
+     * @return eligible True if the employee is due a payment
      */
-    function isPaymentEligible(bytes32 employeeId) external view returns (ebool eligible);
-    
+    function isPaymentEligible(address employeeAddress, address employer) external view returns (bool eligible);
+
     /**
-     * @notice Get payment history for an employee (only accessible by authorized parties)
-     * @param employeeId The unique identifier of the employee
+     * @notice Get the most recent payments of an employee, oldest first
+     * @param employeeAddress The wallet address of the employee
      * @param limit Maximum number of records to return
+     * @param employer The address of the employer that paid the employee
      * @return payments Array of payment records
      */
     function getPaymentHistory(
-        bytes32 employeeId,
-        uint256 limit
+        address employeeAddress,
+        uint256 limit,
+        address employer
     ) external view returns (PaymentRecord[] memory payments);
-}
\ No newline at end of file
+
+    /**
+     * @notice Resolve an employee identifier to the employee wallet
+     * @param employeeId The unique identifier of the employee
+     * @return employeeAddress The wallet address of the employee
+     */
+    function getEmployeeAddress(bytes32 employeeId) external view returns (address employeeAddress);
+}
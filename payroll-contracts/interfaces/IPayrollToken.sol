@@ -24,8 +24,13 @@ interface IPayrollToken {
     
     /// @notice Emitted when payroll budget is topped up
     /// @param employer The employer address
-    /// @param amount The amount added to budget
-    event PayrollBudgetTopUp(address indexed employer, uint64 amount);
+    /// @param amount The encrypted amount added to budget
+    event PayrollBudgetTopUp(address indexed employer, euint64 amount);
+    
+    /// @notice Emitted when an employer withdraws from its payroll budget
+    /// @param employer The employer address
+    /// @param amount The encrypted amount withdrawn
+    event PayrollBudgetWithdrawn(address indexed employer, euint64 amount);
 
     // ============ Payroll-Specific Functions ============
     
@@ -59,7 +64,7 @@ interface IPayrollToken {
     function getPayrollBudget(address employer) external view returns (euint64 budget);
     
     /**
-     * @notice Add to payroll budget (mint new tokens for payroll)
+     * @notice Add to payroll budget from the caller's balance
      * @param employer The employer address
      * @param amount The plaintext amount to add
      */
@@ -13,31 +13,83 @@ async function main() {
   // Deploy PayrollToken
   console.log("\n📦 Deploying PayrollToken...");
   const PayrollToken = await ethers.getContractFactory("PayrollToken");
-  const initialSupply = ethers.utils.parseUnits("1000000", 6); // 1M tokens with 6 decimals
-  const payrollToken = await PayrollToken.deploy(
-    initialSupply,
-    taxAuthority.address
-  );
+  const payrollToken = await PayrollToken.deploy(taxAuthority.address);
   await payrollToken.deployed();
   console.log("✅ PayrollToken deployed to:", payrollToken.address);
   
+  // Payroll tokens are only minted by wrapping the underlying ERC20
+  console.log("\n📦 Deploying MockUSDZ and PayrollTokenWrapper...");
+  const MockUSDZ = await ethers.getContractFactory("MockUSDZ");
+  const usdz = await MockUSDZ.deploy("Mock USDZ", "USDZ");
+  await usdz.deployed();
+  console.log("✅ MockUSDZ deployed to:", usdz.address);
+  
+  const PayrollTokenWrapper = await ethers.getContractFactory("PayrollTokenWrapper");
+  const wrapper = await PayrollTokenWrapper.deploy(usdz.address, payrollToken.address);
+  await wrapper.deployed();
+  await payrollToken.setWrapper(wrapper.address);
+  console.log("✅ PayrollTokenWrapper deployed to:", wrapper.address);
+  
+  // Deploy the external libraries the payroll contracts link against
+  console.log("\n📦 Deploying payroll libraries...");
+  const libraries = {};
+  for (const name of ["AuditorGrants", "ComplianceReports", "Deductions", "ExpenseClaims", "PayrollPayments", "SalaryChanges"]) {
+    const Library = await ethers.getContractFactory(name);
+    const library = await Library.deploy();
+    await library.deployed();
+    libraries[name] = library.address;
+    console.log(`✅ ${name} deployed to:`, library.address);
+  }
+  const linking = (...names) => ({
+    libraries: Object.fromEntries(names.map((name) => [name, libraries[name]])),
+  });
+  
+  // Deploy the extensions the payroll system delegates to
+  console.log("\n📦 Deploying payroll extensions...");
+  const PayrollComplianceExtension = await ethers.getContractFactory(
+    "PayrollComplianceExtension",
+    linking("AuditorGrants", "ComplianceReports")
+  );
+  const complianceExtension = await PayrollComplianceExtension.deploy();
+  await complianceExtension.deployed();
+  console.log("✅ PayrollComplianceExtension deployed to:", complianceExtension.address);
+  
+  const PayrollSystemExtension = await ethers.getContractFactory(
+    "PayrollSystemExtension",
+    linking("Deductions", "ExpenseClaims", "PayrollPayments", "SalaryChanges")
+  );
+  const extension = await PayrollSystemExtension.deploy(complianceExtension.address);
+  await extension.deployed();
+  console.log("✅ PayrollSystemExtension deployed to:", extension.address);
+  
   // Deploy ConfidentialPayrollSystem
   console.log("\n📦 Deploying ConfidentialPayrollSystem...");
-  const ConfidentialPayrollSystem = await ethers.getContractFactory("ConfidentialPayrollSystem");
+  const ConfidentialPayrollSystem = await ethers.getContractFactory(
+    "ConfidentialPayrollSystem",
+    linking("AuditorGrants", "PayrollPayments", "SalaryChanges")
+  );
   const payPeriodDays = 14; // Bi-weekly payments
   const payrollSystem = await ConfidentialPayrollSystem.deploy(
     payrollToken.address,
     deployer.address, // Treasury address
-    payPeriodDays
+    payPeriodDays,
+    extension.address
   );
   await payrollSystem.deployed();
   console.log("✅ ConfidentialPayrollSystem deployed to:", payrollSystem.address);
+  // Compliance functions are served by the extensions at the payroll system's address
+  const payrollCompliance = await ethers.getContractAt("PayrollComplianceExtension", payrollSystem.address);
   
   // Configure PayrollToken
   console.log("\n⚙️ Configuring PayrollToken...");
   await payrollToken.addPayrollManager(payrollSystem.address);
   console.log("✅ Added PayrollSystem as payroll manager");
   
+  // The treasury (deployer) lets the payroll system draw salaries for a year
+  const operatorExpiry = (await ethers.provider.getBlock("latest")).timestamp + 365 * 24 * 60 * 60;
+  await payrollToken.setOperator(payrollSystem.address, operatorExpiry);
+  console.log("✅ Made PayrollSystem an operator of the treasury");
+  
   // Initialize FhenixClient for encryption
   const provider = new ethers.providers.JsonRpcProvider();
   const fhenixClient = new FhenixClient({ provider });
@@ -48,7 +100,7 @@ async function main() {
   // Employee 1: $120,000 annual salary, 25% tax rate
   const salary1 = 120000 * 1e6; // Convert to token decimals
   const encryptedSalary1 = await fhenixClient.encrypt(salary1, "uint64");
-  const encryptedTaxRate1 = await fhenixClient.encrypt(25, "uint64");
+  const encryptedTaxRate1 = await fhenixClient.encrypt(2500, "uint64"); // basis points
   
   await payrollSystem.addEmployee(
     employee1.address,
@@ -61,7 +113,7 @@ async function main() {
   // Employee 2: $80,000 annual salary, 20% tax rate
   const salary2 = 80000 * 1e6;
   const encryptedSalary2 = await fhenixClient.encrypt(salary2, "uint64");
-  const encryptedTaxRate2 = await fhenixClient.encrypt(20, "uint64");
+  const encryptedTaxRate2 = await fhenixClient.encrypt(2000, "uint64"); // basis points
   
   await payrollSystem.addEmployee(
     employee2.address,
@@ -71,11 +123,17 @@ async function main() {
   );
   console.log("✅ Added Employee 2 with encrypted salary");
   
-  // Transfer tokens to payroll system for payments
-  console.log("\n💰 Funding payroll system...");
+  // Fund the treasury by wrapping USDZ into payroll tokens
+  console.log("\n💰 Funding payroll treasury...");
   const fundAmount = ethers.utils.parseUnits("100000", 6);
-  await payrollToken.transfer(payrollSystem.address, fundAmount);
-  console.log("✅ Transferred 100,000 tokens to payroll system");
+  await usdz.mintTo(deployer.address, fundAmount);
+  await usdz.approve(wrapper.address, fundAmount);
+  await wrapper.wrap(deployer.address, fundAmount);
+  console.log("✅ Wrapped 100,000 USDZ into the treasury");
+  
+  // Salaries are only paid out of the payroll budget escrowed in the token
+  await payrollToken.topUpPayrollBudget(deployer.address, fundAmount);
+  console.log("✅ Escrowed 100,000 tokens as the payroll budget");
   
   // Process first payroll
   console.log("\n📊 Processing payroll...");
@@ -84,7 +142,10 @@ async function main() {
   
   // Generate compliance report
   console.log("\n📋 Generating compliance report...");
-  const reportHash = await payrollSystem.generateComplianceReport();
+  await payrollSystem.grantAuditorAccess(deployer.address, deployer.address);
+  // The demo roster is smaller than the default anonymity threshold of 5 employees
+  await payrollCompliance.setMinCohortSize(2);
+  const reportHash = await payrollCompliance.generateComplianceReport(deployer.address);
   console.log("✅ Compliance report generated:", reportHash);
   
   // Display deployment summary
@@ -93,7 +154,11 @@ async function main() {
   console.log("=".repeat(60));
   console.log("\n📍 Contract Addresses:");
   console.log("  PayrollToken:", payrollToken.address);
+  console.log("  MockUSDZ:", usdz.address);
+  console.log("  PayrollTokenWrapper:", wrapper.address);
   console.log("  PayrollSystem:", payrollSystem.address);
+  console.log("  PayrollSystemExtension:", extension.address);
+  console.log("  PayrollComplianceExtension:", complianceExtension.address);
   console.log("\n👤 Configured Accounts:");
   console.log("  Deployer/Treasury:", deployer.address);
   console.log("  Tax Authority:", taxAuthority.address);
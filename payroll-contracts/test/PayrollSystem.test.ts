@@ -1,11 +1,46 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { Contract } from "ethers";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 
+// Deploys the payroll system with its extensions, linking the external libraries each one uses
+async function deployPayrollSystem(paymentToken: string, treasury: string, payPeriodDays: number) {
+  const libraries: Record<string, string> = {};
+  for (const name of ["AuditorGrants", "ComplianceReports", "Deductions", "ExpenseClaims", "PayrollPayments", "SalaryChanges"]) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+  const linking = (...names: string[]) => ({
+    libraries: Object.fromEntries(names.map((name) => [name, libraries[name]])),
+  });
+
+  const PayrollComplianceExtension = await ethers.getContractFactory(
+    "PayrollComplianceExtension",
+    linking("AuditorGrants", "ComplianceReports")
+  );
+  const complianceExtension = await PayrollComplianceExtension.deploy();
+  const PayrollSystemExtension = await ethers.getContractFactory(
+    "PayrollSystemExtension",
+    linking("Deductions", "ExpenseClaims", "PayrollPayments", "SalaryChanges")
+  );
+  const extension = await PayrollSystemExtension.deploy(await complianceExtension.getAddress());
+
+  const ConfidentialPayrollSystem = await ethers.getContractFactory(
+    "ConfidentialPayrollSystem",
+    linking("AuditorGrants", "PayrollPayments", "SalaryChanges")
+  );
+  return ConfidentialPayrollSystem.deploy(paymentToken, treasury, payPeriodDays, await extension.getAddress());
+}
+
 describe("Confidential Payroll System", function () {
   let payrollSystem: Contract;
+  // The payroll system seen through the ABIs of the extensions it delegates to
+  let payrollExtension: Contract;
+  let payrollCompliance: Contract;
   let payrollToken: Contract;
+  let usdz: Contract;
+  let wrapper: Contract;
   let owner: SignerWithAddress;
   let employer: SignerWithAddress;
   let employee1: SignerWithAddress;
@@ -18,28 +53,73 @@ describe("Confidential Payroll System", function () {
 
     // Deploy PayrollToken
     const PayrollToken = await ethers.getContractFactory("PayrollToken");
-    const initialSupply = ethers.parseUnits("1000000", 6); // 1M tokens
-    payrollToken = await PayrollToken.deploy(
-      initialSupply,
-      taxAuthority.address
-    );
+    payrollToken = await PayrollToken.deploy(taxAuthority.address);
     await payrollToken.waitForDeployment();
 
+    // Fund the treasury the only way payroll tokens come into existence: wrapping the ERC20
+    const MockUSDZ = await ethers.getContractFactory("MockUSDZ");
+    usdz = await MockUSDZ.deploy("Mock USDZ", "USDZ");
+    await usdz.waitForDeployment();
+    const PayrollTokenWrapper = await ethers.getContractFactory("PayrollTokenWrapper");
+    wrapper = await PayrollTokenWrapper.deploy(await usdz.getAddress(), await payrollToken.getAddress());
+    await wrapper.waitForDeployment();
+    await payrollToken.setWrapper(await wrapper.getAddress());
+    const treasuryFunds = ethers.parseUnits("1000000", 6); // 1M tokens
+    await usdz.mintTo(owner.address, treasuryFunds);
+    await usdz.approve(await wrapper.getAddress(), treasuryFunds);
+    await wrapper.wrap(owner.address, treasuryFunds);
+    // Salaries are only paid out of the payroll budget the treasury escrows in the token
+    await payrollToken.topUpPayrollBudget(owner.address, ethers.parseUnits("900000", 6));
+
     // Deploy ConfidentialPayrollSystem
-    const ConfidentialPayrollSystem = await ethers.getContractFactory("ConfidentialPayrollSystem");
-    payrollSystem = await ConfidentialPayrollSystem.deploy(
+    payrollSystem = await deployPayrollSystem(
       await payrollToken.getAddress(),
       owner.address, // Treasury
       14 // Bi-weekly payments
     );
     await payrollSystem.waitForDeployment();
+    payrollExtension = await ethers.getContractAt("PayrollSystemExtension", await payrollSystem.getAddress());
+    payrollCompliance = await ethers.getContractAt("PayrollComplianceExtension", await payrollSystem.getAddress());
 
     // Set up roles
     await payrollToken.addPayrollManager(await payrollSystem.getAddress());
+    // Let the payroll system draw salaries from the treasury
+    const operatorExpiry = (await ethers.provider.getBlock("latest"))!.timestamp + 365 * 24 * 60 * 60;
+    await payrollToken.setOperator(await payrollSystem.getAddress(), operatorExpiry);
     await payrollSystem.grantRole(await payrollSystem.EMPLOYER_ROLE(), employer.address);
-    await payrollSystem.grantRole(await payrollSystem.AUDITOR_ROLE(), auditor.address);
+    await payrollSystem.grantAuditorAccess(auditor.address, owner.address);
   });
 
+  // Encrypts 64-bit values as inputs the sender may submit to the payroll system
+  async function encryptFor(sender: SignerWithAddress, ...values: bigint[]) {
+    const input = fhevm.createEncryptedInput(await payrollSystem.getAddress(), sender.address);
+    for (const value of values) {
+      input.add64(value);
+    }
+    return input.encrypt();
+  }
+
+  // Hires an employee for the admin's employer at 36,500 a year (1,400 a fortnight), taxed at a flat 10%
+  async function hireEmployee(account: SignerWithAddress, admin: SignerWithAddress = owner) {
+    const input = await encryptFor(admin, ethers.parseUnits("36500", 6), 1_000n);
+    return payrollSystem
+      .connect(admin)
+      .addEmployee(account.address, input.handles[0], input.handles[1], input.inputProof);
+  }
+
+  // Decrypts the net pay of an employee's latest payment
+  async function latestNetPay(account: SignerWithAddress) {
+    const [payment] = await payrollSystem.getPaymentHistory(account.address, 1, owner.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, payment.encryptedAmount, await payrollSystem.getAddress(), account);
+  }
+
+  // Forwards the tax the token withheld to the tax authority and decrypts its balance
+  async function remittedTax() {
+    await payrollToken.remitTaxWithholdings();
+    const balance = await payrollToken.confidentialBalanceOf(taxAuthority.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, balance, await payrollToken.getAddress(), taxAuthority);
+  }
+
   describe("Deployment", function () {
     it("Should set the correct owner", async function () {
       expect(await payrollToken.owner()).to.equal(owner.address);
@@ -50,88 +130,158 @@ describe("Confidential Payroll System", function () {
     });
 
     it("Should set the correct pay period", async function () {
-      const config = await payrollSystem.config();
+      const config = await payrollSystem.getEmployerConfig(owner.address);
       expect(config.payPeriodDays).to.equal(14);
     });
+
+    it("Should derive the number of pay periods per year", async function () {
+      expect(await payrollSystem.periodsPerYear(owner.address)).to.equal(26);
+    });
+
+    it("Should reject an invalid pay period", async function () {
+      await expect(
+        deployPayrollSystem(await payrollToken.getAddress(), owner.address, 0)
+      ).to.be.revertedWith("Invalid pay period");
+    });
   });
 
   describe("Employee Management", function () {
     it("Should add an employee with encrypted salary", async function () {
-      // Note: In production, these would be encrypted values
-      // For testing, we'll use mock encrypted values
-      const mockEncryptedSalary = ethers.hexlify(ethers.randomBytes(32));
-      const mockEncryptedTaxRate = ethers.hexlify(ethers.randomBytes(32));
-      const mockProof = ethers.hexlify(ethers.randomBytes(64));
-
-      await expect(payrollSystem.addEmployee(
-        employee1.address,
-        mockEncryptedSalary,
-        mockEncryptedTaxRate,
-        mockProof
-      )).to.emit(payrollSystem, "EmployeeAdded")
-        .withArgs(employee1.address, await ethers.provider.getBlock("latest").then(b => b?.timestamp));
+      const hiredAt = (await ethers.provider.getBlock("latest"))!.timestamp + 60;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [hiredAt]);
+
+      await expect(hireEmployee(employee1)).to.emit(payrollSystem, "EmployeeAdded")
+        .withArgs(employee1.address, hiredAt);
       
-      expect(await payrollSystem.isEmployee(employee1.address)).to.be.true;
-      expect(await payrollSystem.totalEmployees()).to.equal(1);
+      expect(await payrollSystem.isEmployee(employee1.address, owner.address)).to.be.true;
+      expect(await payrollSystem.totalEmployees(owner.address)).to.equal(1);
     });
 
     it("Should not allow adding duplicate employees", async function () {
-      const mockEncryptedSalary = ethers.hexlify(ethers.randomBytes(32));
-      const mockEncryptedTaxRate = ethers.hexlify(ethers.randomBytes(32));
-      const mockProof = ethers.hexlify(ethers.randomBytes(64));
-
-      await payrollSystem.addEmployee(
-        employee1.address,
-        mockEncryptedSalary,
-        mockEncryptedTaxRate,
-        mockProof
-      );
+      await hireEmployee(employee1);
 
-      await expect(payrollSystem.addEmployee(
-        employee1.address,
-        mockEncryptedSalary,
-        mockEncryptedTaxRate,
-        mockProof
-      )).to.be.revertedWith("Employee already exists");
+      await expect(hireEmployee(employee1)).to.be.revertedWith("Employee already exists");
     });
 
     it("Should remove an employee", async function () {
-      const mockEncryptedSalary = ethers.hexlify(ethers.randomBytes(32));
-      const mockEncryptedTaxRate = ethers.hexlify(ethers.randomBytes(32));
-      const mockProof = ethers.hexlify(ethers.randomBytes(64));
-
-      await payrollSystem.addEmployee(
-        employee1.address,
-        mockEncryptedSalary,
-        mockEncryptedTaxRate,
-        mockProof
+      await hireEmployee(employee1);
+
+      await payrollSystem.removeEmployee(employee1.address);
+      expect(await payrollSystem.isEmployee(employee1.address, owner.address)).to.be.false;
+    });
+
+    it("Should record the payment frequency of a new hire", async function () {
+      await hireEmployee(employee1);
+
+      const employee = await payrollSystem.getEmployee(employee1.address, owner.address);
+      expect(employee.paymentFrequency).to.equal(await payrollSystem.PAYMENT_FREQUENCY_BIWEEKLY());
+    });
+
+    it("Should settle and clear an employee's pay setup on removal", async function () {
+      // Settling decrypts the final payment
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      await hireEmployee(employee1);
+      const bonus = await encryptFor(owner, ethers.parseUnits("500", 6));
+      await payrollSystem.distributeBonus(employee1.address, bonus.handles[0], bonus.inputProof);
+      const split = await encryptFor(employee1, ethers.parseUnits("100", 6));
+      await payrollExtension.connect(employee1).setPayoutDestinations(
+        owner.address,
+        [{ wallet: employee2.address, isRate: false, value: split.handles[0] }],
+        split.inputProof
       );
+      await payrollCompliance.addSalaryBand(owner.address, "Engineer", 20_000n, 30_000n);
+      await payrollCompliance.setEmployeeSalaryBand(employee1.address, 0);
+
+      await expect(payrollSystem.removeEmployee(employee1.address)).to.emit(payrollSystem, "SalaryPaid");
+
+      // The pending bonus is paid net of 10% tax, split as the employee asked
+      const tokenAddress = await payrollToken.getAddress();
+      const balanceOf = async (signer: SignerWithAddress) =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await payrollToken.confidentialBalanceOf(signer.address),
+          tokenAddress,
+          signer,
+        );
+      expect(await balanceOf(employee1)).to.equal(ethers.parseUnits("350", 6));
+      expect(await balanceOf(employee2)).to.equal(ethers.parseUnits("100", 6));
+
+      expect(await payrollExtension.getPayoutDestinations(employee1.address, owner.address)).to.deep.equal([]);
+      const [hasBand] = await payrollCompliance.getEmployeeSalaryBand(owner.address, employee1.address);
+      expect(hasBand).to.be.false;
+    });
+
+    it("Should pay what removal could not settle once the employee is rehired", async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
 
+      await hireEmployee(employee1);
+      const bonus = await encryptFor(owner, ethers.parseUnits("500", 6));
+      await payrollSystem.distributeBonus(employee1.address, bonus.handles[0], bonus.inputProof);
+
+      // An empty escrow refuses the final payment
+      const tokenAddress = await payrollToken.getAddress();
+      const withdrawal = await fhevm
+        .createEncryptedInput(tokenAddress, owner.address)
+        .add64(ethers.parseUnits("900000", 6))
+        .encrypt();
+      await payrollToken.emergencyWithdraw(withdrawal.handles[0], withdrawal.inputProof);
       await payrollSystem.removeEmployee(employee1.address);
-      expect(await payrollSystem.isEmployee(employee1.address)).to.be.false;
+      expect(await latestNetPay(employee1)).to.equal(0n);
+
+      await payrollToken.topUpPayrollBudget(owner.address, ethers.parseUnits("10000", 6));
+      await hireEmployee(employee1);
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+
+      // A fortnight's 1,260 net plus the 450 net of the bonus the removal left unpaid
+      expect(await latestNetPay(employee1)).to.equal(ethers.parseUnits("1710", 6));
+    });
+
+    it("Should list the roster page by page", async function () {
+      for (const account of [employee1, employee2, auditor]) {
+        await hireEmployee(account);
+      }
+
+      expect(await payrollSystem.getEmployees(owner.address, 0, 2)).to.deep.equal([employee1.address, employee2.address]);
+      expect(await payrollSystem.getEmployees(owner.address, 2, 2)).to.deep.equal([auditor.address]);
+      expect(await payrollSystem.getEmployees(owner.address, 5, 2)).to.deep.equal([]);
+      expect(await payrollSystem.getEmployees(owner.address, 1, ethers.MaxUint256))
+        .to.deep.equal([employee2.address, auditor.address]);
+      expect(await payrollSystem.getEmployeeByIndex(owner.address, 1)).to.equal(employee2.address);
+      expect(await payrollSystem.getEmployeeIndex(auditor.address, owner.address)).to.equal(2);
+    });
+
+    it("Should swap the last employee into a removed slot", async function () {
+      for (const account of [employee1, employee2, auditor]) {
+        await hireEmployee(account);
+      }
+
+      await expect(payrollSystem.removeEmployee(employee1.address))
+        .to.emit(payrollSystem, "EmployeeRemoved");
+
+      expect(await payrollSystem.totalEmployees(owner.address)).to.equal(2);
+      expect(await payrollSystem.getEmployeeByIndex(owner.address, 0)).to.equal(auditor.address);
+      expect(await payrollSystem.getEmployeeIndex(employee2.address, owner.address)).to.equal(1);
+      await expect(payrollSystem.getEmployeeByIndex(owner.address, 2)).to.be.revertedWith("Index out of bounds");
     });
   });
 
   describe("Payroll Processing", function () {
     beforeEach(async function () {
       // Add test employees
-      const mockEncryptedSalary = ethers.hexlify(ethers.randomBytes(32));
-      const mockEncryptedTaxRate = ethers.hexlify(ethers.randomBytes(32));
-      const mockProof = ethers.hexlify(ethers.randomBytes(64));
-
-      await payrollSystem.addEmployee(
-        employee1.address,
-        mockEncryptedSalary,
-        mockEncryptedTaxRate,
-        mockProof
-      );
+      await hireEmployee(employee1);
 
-      await payrollSystem.addEmployee(
-        employee2.address,
-        mockEncryptedSalary,
-        mockEncryptedTaxRate,
-        mockProof
-      );
+      await hireEmployee(employee2);
+
+      // Let a full bi-weekly pay period elapse
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
     });
 
     it("Should process payroll for all employees", async function () {
@@ -139,68 +289,825 @@ describe("Confidential Payroll System", function () {
         .to.emit(payrollSystem, "PayrollProcessed")
         .withArgs(1, 2); // Period 1, 2 employees
 
-      expect(await payrollSystem.getCurrentPayPeriod()).to.equal(1);
+      expect(await payrollSystem.getCurrentPayPeriod(owner.address)).to.equal(1);
     });
 
     it("Should only allow PAYROLL_ADMIN to process payroll", async function () {
       await expect(
         payrollSystem.connect(employee1).processPayroll()
-      ).to.be.revertedWith("AccessControl:");
+      ).to.be.revertedWithCustomError(payrollSystem, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should process a payroll run in batches", async function () {
+      await expect(payrollSystem.startPayrollRun())
+        .to.emit(payrollSystem, "PayrollRunStarted")
+        .withArgs(1, 2);
+
+      await expect(payrollSystem.processPayrollBatch(1))
+        .to.emit(payrollSystem, "PayrollBatchProcessed")
+        .withArgs(1, 0, 1)
+        .and.not.to.emit(payrollSystem, "PayrollProcessed");
+
+      await expect(payrollSystem.finalizePayrollRun()).to.be.revertedWith("Payroll run incomplete");
+
+      await expect(payrollSystem.processPayrollBatch(10))
+        .to.emit(payrollSystem, "PayrollBatchProcessed")
+        .withArgs(1, 1, 2);
+
+      await expect(payrollSystem.finalizePayrollRun())
+        .to.emit(payrollSystem, "PayrollProcessed")
+        .withArgs(1, 2);
+
+      expect(await payrollSystem.isPayrollRunOpen()).to.be.false;
+    });
+
+    it("Should not start a second run while one is open", async function () {
+      await payrollSystem.startPayrollRun();
+
+      await expect(payrollSystem.startPayrollRun()).to.be.revertedWith("Payroll run in progress");
+      await expect(payrollSystem.processPayroll()).to.be.revertedWith("Payroll run in progress");
+      expect(await payrollSystem.getCurrentPayPeriod(owner.address)).to.equal(1);
+    });
+
+    it("Should freeze the roster while a run is open", async function () {
+      await payrollSystem.startPayrollRun();
+
+      await expect(payrollSystem.removeEmployee(employee1.address)).to.be.revertedWith("Payroll run in progress");
+    });
+
+    it("Should not pay an employee twice within a pay period", async function () {
+      await payrollSystem.processPayroll();
+      expect(await payrollSystem.isPaymentEligible(employee1.address, owner.address)).to.be.false;
+
+      await expect(payrollSystem.processPayroll())
+        .to.emit(payrollSystem, "PayrollProcessed")
+        .withArgs(2, 0)
+        .and.not.to.emit(payrollSystem, "SalaryPaid");
+    });
+
+    it("Should only pay employees whose own pay period has elapsed", async function () {
+      await payrollSystem.processPayroll();
+      await expect(payrollSystem.setPaymentFrequency(employee2.address, await payrollSystem.PAYMENT_FREQUENCY_MONTHLY()))
+        .to.emit(payrollSystem, "PaymentFrequencyUpdated")
+        .withArgs(employee2.address, 30);
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(payrollSystem.processPayroll())
+        .to.emit(payrollSystem, "PayrollProcessed")
+        .withArgs(2, 1);
+      expect((await payrollSystem.getPaymentHistory(employee2.address, 10, owner.address)).length).to.equal(1);
+      expect((await payrollSystem.getEmployee(employee2.address, owner.address)).paymentFrequency).to.equal(4); // Monthly
+    });
+
+    it("Should track the run total and shortfall against the treasury and budget", async function () {
+      await payrollSystem.processPayroll();
+
+      const run = await payrollSystem.payrollRuns(owner.address, 1);
+      expect(run.encryptedTreasuryBalance).to.not.equal(ethers.ZeroHash);
+      expect(run.encryptedTotal).to.not.equal(ethers.ZeroHash);
+      expect(run.encryptedShortfall).to.not.equal(ethers.ZeroHash);
+      expect((await payrollSystem.getEmployerConfig(owner.address)).encryptedPeriodBudget).to.not.equal(ethers.ZeroHash);
+    });
+
+    it("Should refuse run payments beyond the employer's period budget", async function () {
+      // The refused payment is only visible in the decrypted run totals
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const operator = (await ethers.getSigners())[6];
+      await payrollSystem.addPayrollOperator(operator.address);
+      // Room for one of the two 1,400 payslips
+      const budget = await encryptFor(owner, ethers.parseUnits("1500", 6));
+      await expect(payrollSystem.setPeriodBudget(budget.handles[0], budget.inputProof))
+        .to.emit(payrollSystem, "PeriodBudgetSet")
+        .withArgs(owner.address);
+      await expect(payrollSystem.connect(operator).setPeriodBudget(budget.handles[0], budget.inputProof))
+        .to.be.revertedWith("Not an employer");
+
+      await payrollSystem.processPayroll();
+
+      const systemAddress = await payrollSystem.getAddress();
+      const decrypt = async (handle: string, signer: SignerWithAddress = owner) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, systemAddress, signer);
+      const run = await payrollSystem.payrollRuns(owner.address, 1);
+      expect(await decrypt(run.encryptedTotal)).to.equal(ethers.parseUnits("1400", 6));
+      expect(await decrypt(run.encryptedShortfall)).to.equal(ethers.parseUnits("1400", 6));
+
+      // Every current operator can read the budget
+      const config = await payrollSystem.getEmployerConfig(owner.address);
+      expect(await decrypt(config.encryptedPeriodBudget, operator)).to.equal(ethers.parseUnits("1500", 6));
+    });
+
+    it("Should reject unsupported payment frequencies", async function () {
+      await expect(payrollSystem.setPaymentFrequency(employee1.address, 3)).to.be.revertedWith("Invalid payment frequency");
+    });
+
+    it("Should let streaming employees claim instead of being paid by runs", async function () {
+      await expect(payrollExtension.setSalaryStreaming(employee1.address, true))
+        .to.emit(payrollExtension, "SalaryStreamingSet")
+        .withArgs(employee1.address, true);
+      expect(await payrollExtension.isSalaryStreamed(employee1.address, owner.address)).to.be.true;
+      expect(await payrollSystem.isPaymentEligible(employee1.address, owner.address)).to.be.false;
+
+      await expect(payrollSystem.processPayroll())
+        .to.emit(payrollSystem, "PayrollProcessed")
+        .withArgs(1, 1);
+      expect((await payrollSystem.getPaymentHistory(employee1.address, 10, owner.address)).length).to.equal(0);
+
+      await expect(payrollExtension.connect(employee1).claimStreamedSalary(owner.address))
+        .to.emit(payrollSystem, "SalaryPaid");
+      expect((await payrollSystem.getPaymentHistory(employee1.address, 10, owner.address)).length).to.equal(1);
+    });
+
+    it("Should only let streaming employees claim", async function () {
+      await expect(payrollExtension.connect(employee2).claimStreamedSalary(owner.address))
+        .to.be.revertedWith("Salary not streamed");
+      await expect(payrollExtension.connect(auditor).claimStreamedSalary(owner.address))
+        .to.be.revertedWith("Employee not found");
+      await expect(payrollExtension.setSalaryStreaming(employee2.address, false))
+        .to.be.revertedWith("Streaming mode unchanged");
+    });
+
+    it("Should stream at most 30 days at once on long pay periods", async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      // 40,000 units a second would overflow 64 bits over a 365-day period, untaxed
+      const streamer = (await ethers.getSigners())[6];
+      const secondsPerYear = 365n * 86400n;
+      await payrollSystem.configurePayroll(owner.address, 365);
+      const input = await encryptFor(owner, 40_000n * secondsPerYear, 0n);
+      await payrollSystem.addEmployee(streamer.address, input.handles[0], input.handles[1], input.inputProof);
+      await payrollExtension.setSalaryStreaming(streamer.address, true);
+      const { startDate } = await payrollSystem.getEmployee(streamer.address, owner.address);
+
+      // After 240 days a claim pays 30 days, and the next one the 30 days after that
+      const maxWindowPay = 40_000n * 30n * 86400n;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startDate + 240n * 86400n)]);
+      await payrollExtension.connect(streamer).claimStreamedSalary(owner.address);
+      expect(await latestNetPay(streamer)).to.equal(maxWindowPay);
+
+      await payrollExtension.connect(streamer).claimStreamedSalary(owner.address);
+      expect(await latestNetPay(streamer)).to.equal(maxWindowPay);
+      const { lastPaymentDate } = await payrollSystem.getEmployee(streamer.address, owner.address);
+      expect(lastPaymentDate).to.equal(startDate + 60n * 86400n);
+    });
+  });
+
+  describe("Employee Records", function () {
+    beforeEach(async function () {
+      await hireEmployee(employee1);
+    });
+
+    it("Should assign an employee id on hire", async function () {
+      const employee = await payrollSystem.getEmployee(employee1.address, owner.address);
+
+      expect(employee.employeeId).to.not.equal(ethers.ZeroHash);
+      expect(employee.employeeAddress).to.equal(employee1.address);
+      expect(employee.paymentFrequency).to.equal(2); // Bi-weekly
+      expect(employee.isActive).to.be.true;
+      expect(await payrollSystem.getEmployeeAddress(employee.employeeId)).to.equal(employee1.address);
+    });
+
+    it("Should record a payment and emit SalaryPaid", async function () {
+      const { employeeId } = await payrollSystem.getEmployee(employee1.address, owner.address);
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(payrollSystem.processPayroll())
+        .to.emit(payrollSystem, "SalaryPaid");
+
+      const history = await payrollSystem.getPaymentHistory(employee1.address, 10, owner.address);
+      expect(history.length).to.equal(1);
+      expect(history[0].employeeId).to.equal(employeeId);
+      expect(history[0].paymentType).to.equal(1); // Salary
+    });
+
+    it("Should only be eligible for payment after a full pay period", async function () {
+      expect(await payrollSystem.isPaymentEligible(employee1.address, owner.address)).to.be.false;
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      expect(await payrollSystem.isPaymentEligible(employee1.address, owner.address)).to.be.true;
+    });
+
+    it("Should prorate mid-period payments and carry the rounding over a year", async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      // Neither the salary nor its tax at 12.34% divides evenly into days
+      const salary = 26_000_000_007n;
+      const annualTax = (salary * 1_234n) / 10_000n;
+      const input = await encryptFor(owner, salary, 1_234n);
+      await payrollSystem.addEmployee(employee2.address, input.handles[0], input.handles[1], input.inputProof);
+      await payrollSystem.setPaymentFrequency(employee2.address, await payrollSystem.PAYMENT_FREQUENCY_MONTHLY());
+      const { startDate } = await payrollSystem.getEmployee(employee2.address, owner.address);
+      // The treasury's operator approval from the setup lapses before the year is over
+      await payrollToken.setOperator(await payrollSystem.getAddress(), Number(startDate) + 2 * 365 * 86400);
+
+      // Pay 10 days into every 30-day period and again at its end, then the last 5 days of the
+      // year: 25 payslips over 365 days
+      const paydays = [];
+      for (let period = 0n; period < 12n; period++) {
+        paydays.push(period * 30n + 10n, period * 30n + 30n);
+      }
+      paydays.push(365n);
+      for (const day of paydays) {
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startDate + day * 86400n)]);
+        await payrollSystem.processSalaryPayment(employee2.address);
+      }
+
+      const history = await payrollSystem.getPaymentHistory(employee2.address, 100, owner.address);
+      expect(history.length).to.equal(25);
+      const netPays: bigint[] = [];
+      for (const payment of history) {
+        netPays.push(await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          payment.encryptedAmount,
+          await payrollSystem.getAddress(),
+          employee2
+        ));
+      }
+
+      // Every day is 1/365 of the year, whatever the pay period; the first payslip covers 10 days
+      expect(netPays[0]).to.equal((salary * 10n) / 365n - (annualTax * 10n) / 365n);
+      expect(netPays.reduce((total, netPay) => total + netPay, 0n)).to.equal(salary - annualTax);
+    });
+
+    it("Should emit SalaryUpdated on salary changes", async function () {
+      const { employeeId } = await payrollSystem.getEmployee(employee1.address, owner.address);
+      const raise = await encryptFor(owner, ethers.parseUnits("28000", 6));
+
+      await payrollSystem.grantRole(await payrollSystem.SALARY_APPROVER_ROLE(), employer.address);
+      await payrollSystem.proposeSalaryChange(employee1.address, raise.handles[0], raise.inputProof);
+      await payrollExtension.connect(employer).approveSalaryChange(0);
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(payrollExtension.executeSalaryChange(0))
+        .to.emit(payrollSystem, "SalaryUpdated")
+        .withArgs(employeeId, owner.address);
+    });
+  });
+
+  describe("Salary Change Approval", function () {
+    beforeEach(async function () {
+      await hireEmployee(employee1);
+      await payrollSystem.grantRole(await payrollSystem.SALARY_APPROVER_ROLE(), employer.address);
+      const raise = await encryptFor(owner, ethers.parseUnits("28000", 6));
+      await expect(
+        payrollSystem.proposeSalaryChange(employee1.address, raise.handles[0], raise.inputProof)
+      ).to.emit(payrollSystem, "SalaryChangeProposed")
+        .withArgs(owner.address, 0, employee1.address, owner.address);
+    });
+
+    it("Should require a second, distinct approver", async function () {
+      await payrollSystem.grantRole(await payrollSystem.SALARY_APPROVER_ROLE(), owner.address);
+      await expect(payrollExtension.approveSalaryChange(0)).to.be.revertedWith("Proposer cannot approve");
+      await expect(payrollExtension.connect(employee1).approveSalaryChange(0))
+        .to.be.revertedWithCustomError(payrollExtension, "AccessControlUnauthorizedAccount");
+      await expect(payrollExtension.executeSalaryChange(0)).to.be.revertedWith("Salary change not approved");
+    });
+
+    it("Should only take effect once the timelock has passed", async function () {
+      await expect(payrollExtension.setSalaryChangeDelay(31 * 24 * 60 * 60)).to.be.revertedWith("Invalid salary change delay");
+      await expect(payrollExtension.setSalaryChangeDelay(0)).to.be.revertedWith("Invalid salary change delay");
+      await expect(payrollExtension.setSalaryChangeDelay(7 * 24 * 60 * 60))
+        .to.emit(payrollExtension, "SalaryChangeDelaySet")
+        .withArgs(owner.address, 7 * 24 * 60 * 60);
+
+      await expect(payrollExtension.connect(employer).approveSalaryChange(0))
+        .to.emit(payrollExtension, "SalaryChangeApproved");
+      const { effectiveAt } = await payrollExtension.getSalaryChange(owner.address, 0);
+      expect(effectiveAt).to.equal((await ethers.provider.getBlock("latest"))!.timestamp + 7 * 24 * 60 * 60);
+      await expect(payrollExtension.executeSalaryChange(0)).to.be.revertedWith("Salary change timelocked");
+
+      await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(payrollExtension.executeSalaryChange(0))
+        .to.emit(payrollExtension, "SalaryChangeExecuted")
+        .withArgs(owner.address, 0);
+      expect((await payrollExtension.getSalaryChange(owner.address, 0)).status)
+        .to.equal(await payrollExtension.SALARY_CHANGE_EXECUTED());
+    });
+
+    it("Should cancel changes that have not taken effect", async function () {
+      await payrollExtension.connect(employer).approveSalaryChange(0);
+      await expect(payrollExtension.connect(employee1).cancelSalaryChange(0)).to.be.revertedWith("Not authorized to cancel");
+      await expect(payrollExtension.connect(employer).cancelSalaryChange(0))
+        .to.emit(payrollExtension, "SalaryChangeCancelled")
+        .withArgs(owner.address, 0, employer.address);
+
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(payrollExtension.executeSalaryChange(0)).to.be.revertedWith("Salary change not approved");
+      await expect(payrollExtension.cancelSalaryChange(0)).to.be.revertedWith("Salary change not pending");
+    });
+
+    it("Should let changes lapse when the employee is removed, even after a rehire", async function () {
+      await payrollExtension.connect(employer).approveSalaryChange(0);
+      const raise = await encryptFor(owner, ethers.parseUnits("30000", 6));
+      await payrollSystem.proposeSalaryChange(employee1.address, raise.handles[0], raise.inputProof);
+
+      await payrollSystem.removeEmployee(employee1.address);
+      await hireEmployee(employee1);
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(payrollExtension.executeSalaryChange(0)).to.be.revertedWith("Employee not found");
+      await expect(payrollExtension.connect(employer).approveSalaryChange(1)).to.be.revertedWith("Employee not found");
+    });
+  });
+
+  describe("Tax Withholding", function () {
+    beforeEach(async function () {
+      // Net pay and withheld tax are only visible decrypted
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+    });
+
+    // Hires at 36,500 a year, so a bi-weekly payslip is 1,400 gross
+    const hireAtRate = async (account: SignerWithAddress, rateBps: bigint) => {
+      const input = await encryptFor(owner, ethers.parseUnits("36500", 6), rateBps);
+      await payrollSystem.addEmployee(account.address, input.handles[0], input.handles[1], input.inputProof);
+    };
+
+    const payOnePeriod = async () => {
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+    };
+
+    it("Should withhold a rate that is not a whole percentage", async function () {
+      await hireAtRate(employee1, 1_234n); // 12.34%
+      await payOnePeriod();
+
+      expect(await latestNetPay(employee1)).to.equal(ethers.parseUnits("1227.24", 6));
+      expect(await remittedTax()).to.equal(ethers.parseUnits("172.76", 6));
+    });
+
+    it("Should withhold the whole gross at the maximum rate, capping higher rates", async function () {
+      await hireAtRate(employee1, 10_000n);
+      await hireAtRate(employee2, 12_000n);
+      await payOnePeriod();
+
+      expect(await latestNetPay(employee1)).to.equal(0n);
+      expect(await latestNetPay(employee2)).to.equal(0n);
+      expect(await remittedTax()).to.equal(ethers.parseUnits("2800", 6));
+    });
+  });
+
+  describe("Tax Brackets", function () {
+    const thresholds = [0, 11_000_000_000, 44_725_000_000];
+    const ratesBps = [1000, 1200, 2200];
+
+    it("Should store brackets per tax year", async function () {
+      await expect(payrollExtension.setTaxBrackets(2025, thresholds, ratesBps))
+        .to.emit(payrollExtension, "TaxBracketsSet")
+        .withArgs(2025, 3);
+
+      const brackets = await payrollExtension.getTaxBrackets(2025);
+      expect(brackets.map((b: { threshold: bigint }) => b.threshold)).to.deep.equal(thresholds.map(BigInt));
+      expect(brackets.map((b: { rateBps: bigint }) => b.rateBps)).to.deep.equal(ratesBps.map(BigInt));
+      expect(await payrollExtension.getTaxBrackets(2026)).to.deep.equal([]);
+    });
+
+    it("Should reject malformed bracket tables", async function () {
+      await expect(payrollExtension.setTaxBrackets(2025, [100, 200], [1000, 2000]))
+        .to.be.revertedWith("First bracket must start at zero");
+      await expect(payrollExtension.setTaxBrackets(2025, [0, 200, 200], [1000, 2000, 3000]))
+        .to.be.revertedWith("Thresholds must increase");
+      await expect(payrollExtension.setTaxBrackets(2025, [0], [10_001]))
+        .to.be.revertedWith("Rate exceeds 100%");
+      await expect(payrollExtension.setActiveTaxYear(2030)).to.be.revertedWith("No brackets for tax year");
+    });
+
+    it("Should freeze a tax year once a payroll run used it", async function () {
+      await payrollExtension.setTaxBrackets(2025, thresholds, ratesBps);
+      await expect(payrollExtension.setActiveTaxYear(2025))
+        .to.emit(payrollExtension, "ActiveTaxYearSet")
+        .withArgs(2025);
+
+      await payrollSystem.processPayroll();
+
+      expect((await payrollSystem.payrollRuns(owner.address, 1)).taxYear).to.equal(2025);
+      await expect(payrollExtension.setTaxBrackets(2025, thresholds, ratesBps))
+        .to.be.revertedWith("Tax year already used by a payroll run");
+    });
+
+    it("Should tax a payslip across several brackets scaled to the pay period", async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      await payrollExtension.setTaxBrackets(2025, thresholds, ratesBps);
+      await payrollExtension.setActiveTaxYear(2025);
+
+      // 73,000 a year paid bi-weekly is 2,800 gross, reaching into the top bracket
+      const input = await encryptFor(owner, ethers.parseUnits("73000", 6), 0n);
+      await payrollSystem.addEmployee(employee1.address, input.handles[0], input.handles[1], input.inputProof);
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+
+      // Annual thresholds scaled to the 14 days of the pay period
+      const gross = ethers.parseUnits("2800", 6);
+      const lower = thresholds.map((threshold) => (BigInt(threshold) * 14n) / 365n);
+      expect(lower).to.deep.equal([0n, 421_917_808n, 1_715_479_452n]);
+      const weightedTax = (lower[1] - lower[0]) * 1_000n + (lower[2] - lower[1]) * 1_200n + (gross - lower[2]) * 2_200n;
+      const tax = weightedTax / 10_000n;
+      expect(tax).to.equal(436_013_698n);
+
+      expect(await remittedTax()).to.equal(tax);
+      expect(await latestNetPay(employee1)).to.equal(gross - tax);
+    });
+
+    it("Should tax frequent streamed claims the same as a single claim", async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      // Streamed at 1,000 units a second, with the 20% bracket starting at 400 units a second
+      const secondsPerYear = 365n * 86400n;
+      await payrollExtension.setTaxBrackets(2025, [0n, 400n * secondsPerYear], [1000, 2000]);
+      await payrollExtension.setActiveTaxYear(2025);
+      const startDates: bigint[] = [];
+      for (const account of [employee1, employee2]) {
+        const input = await encryptFor(owner, 1_000n * secondsPerYear, 0n);
+        await payrollSystem.addEmployee(account.address, input.handles[0], input.handles[1], input.inputProof);
+        await payrollExtension.setSalaryStreaming(account.address, true);
+        startDates.push((await payrollSystem.getEmployee(account.address, owner.address)).startDate);
+      }
+
+      // A week of daily claims against one claim at the end of the week
+      const claimAt = async (account: SignerWithAddress, timestamp: bigint) => {
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+        await payrollExtension.connect(account).claimStreamedSalary(owner.address);
+      };
+      for (let day = 1n; day <= 7n; day++) {
+        await claimAt(employee1, startDates[0] + day * 86400n);
+      }
+      await claimAt(employee2, startDates[1] + 7n * 86400n);
+
+      const systemAddress = await payrollSystem.getAddress();
+      const netPaid = async (account: SignerWithAddress) => {
+        let total = 0n;
+        for (const payment of await payrollSystem.getPaymentHistory(account.address, 10, owner.address)) {
+          total += await fhevm.userDecryptEuint(FhevmType.euint64, payment.encryptedAmount, systemAddress, account);
+        }
+        return total;
+      };
+
+      // 400 a second taxed at 10% and 600 at 20% leaves 840 a second
+      const weeklyNetPay = 840n * 7n * 86400n;
+      expect(await netPaid(employee1)).to.equal(weeklyNetPay);
+      expect(await netPaid(employee2)).to.equal(weeklyNetPay);
     });
   });
 
   describe("Bonus Distribution", function () {
     beforeEach(async function () {
-      const mockEncryptedSalary = ethers.hexlify(ethers.randomBytes(32));
-      const mockEncryptedTaxRate = ethers.hexlify(ethers.randomBytes(32));
-      const mockProof = ethers.hexlify(ethers.randomBytes(64));
-
-      await payrollSystem.addEmployee(
-        employee1.address,
-        mockEncryptedSalary,
-        mockEncryptedTaxRate,
-        mockProof
-      );
+      await hireEmployee(employee1);
     });
 
     it("Should distribute bonus to employee", async function () {
-      const mockEncryptedBonus = ethers.hexlify(ethers.randomBytes(32));
-      const mockProof = ethers.hexlify(ethers.randomBytes(64));
+      const bonus = await encryptFor(employer, ethers.parseUnits("500", 6));
+      const distributedAt = (await ethers.provider.getBlock("latest"))!.timestamp + 60;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [distributedAt]);
 
       await expect(
-        payrollSystem.connect(employer).distributeBonus(
-          employee1.address,
-          mockEncryptedBonus,
-          mockProof
-        )
+        payrollSystem.connect(employer).distributeBonus(employee1.address, bonus.handles[0], bonus.inputProof)
       ).to.emit(payrollSystem, "BonusDistributed")
-        .withArgs(employee1.address, await ethers.provider.getBlock("latest").then(b => b?.timestamp));
+        .withArgs(employee1.address, distributedAt);
     });
 
     it("Should only allow EMPLOYER to distribute bonuses", async function () {
-      const mockEncryptedBonus = ethers.hexlify(ethers.randomBytes(32));
-      const mockProof = ethers.hexlify(ethers.randomBytes(64));
+      const bonus = await encryptFor(employee1, ethers.parseUnits("500", 6));
 
       await expect(
-        payrollSystem.connect(employee1).distributeBonus(
-          employee1.address,
-          mockEncryptedBonus,
-          mockProof
-        )
-      ).to.be.revertedWith("AccessControl:");
+        payrollSystem.connect(employee1).distributeBonus(employee1.address, bonus.handles[0], bonus.inputProof)
+      ).to.be.revertedWithCustomError(payrollSystem, "AccessControlUnauthorizedAccount");
     });
   });
 
   describe("Compliance Reporting", function () {
+    beforeEach(async function () {
+      // A single employee is below the default anonymity threshold
+      await payrollCompliance.setMinCohortSize(1);
+      await hireEmployee(employee1);
+    });
+
     it("Should generate compliance report", async function () {
-      const reportHash = await payrollSystem.connect(auditor).generateComplianceReport();
+      const reportHash = await payrollCompliance.connect(auditor).generateComplianceReport.staticCall(owner.address);
       expect(reportHash).to.be.properHex(64); // 32 bytes = 64 hex chars
     });
 
     it("Should only allow AUDITOR to generate reports", async function () {
       await expect(
-        payrollSystem.connect(employee1).generateComplianceReport()
-      ).to.be.revertedWith("AccessControl:");
+        payrollCompliance.connect(employee1).generateComplianceReport(owner.address)
+      ).to.be.revertedWithCustomError(payrollCompliance, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should store generated reports", async function () {
+      await payrollCompliance.connect(auditor).generateComplianceReport(owner.address);
+
+      expect(await payrollCompliance.getComplianceReportCount(owner.address)).to.equal(1);
+      const report = await payrollCompliance.getComplianceReport(owner.address, 0);
+      expect(report.employeeCount).to.equal(1);
+      expect(report.totalsPublished).to.equal(false);
+      await expect(payrollCompliance.getComplianceReport(owner.address, 1)).to.be.revertedWith("Report not found");
+    });
+
+    it("Should list reports by period and record the generating auditor", async function () {
+      await payrollCompliance.connect(auditor).generateComplianceReport(owner.address);
+      await payrollCompliance.connect(auditor).generateComplianceReport(owner.address);
+
+      const period = await payrollSystem.getCurrentPayPeriod(owner.address);
+      expect(await payrollCompliance.getComplianceReportsByPeriod(owner.address, period)).to.deep.equal([0n, 1n]);
+      expect(await payrollCompliance.getComplianceReportsByPeriod(owner.address, period + 1n)).to.deep.equal([]);
+      expect((await payrollCompliance.getComplianceReport(owner.address, 1)).generatedBy).to.equal(auditor.address);
+    });
+
+    it("Should re-grant a stored report to auditors appointed later", async function () {
+      const [, , , , , , newAuditor] = await ethers.getSigners();
+      await payrollCompliance.connect(auditor).generateComplianceReport(owner.address);
+
+      await expect(payrollCompliance.grantComplianceReportAccess(owner.address, 0, newAuditor.address))
+        .to.be.revertedWith("Auditor has no access");
+      await payrollSystem.grantAuditorAccess(newAuditor.address, owner.address);
+      await expect(payrollCompliance.connect(employee1).grantComplianceReportAccess(owner.address, 0, newAuditor.address))
+        .to.be.revertedWith("Not authorized for employer");
+      await expect(payrollCompliance.grantComplianceReportAccess(owner.address, 0, newAuditor.address))
+        .to.emit(payrollCompliance, "ComplianceReportAccessGranted")
+        .withArgs(owner.address, 0, newAuditor.address);
+
+      if (fhevm.isMock) {
+        const report = await payrollCompliance.getComplianceReport(owner.address, 0);
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            report.encryptedTotalPaid,
+            await payrollSystem.getAddress(),
+            newAuditor
+          )
+        ).to.equal(0);
+      }
+    });
+
+    it("Should publish decrypted totals and cover them in the report hash", async function () {
+      // Totals are decrypted by the mock decryption oracle
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+
+      await payrollCompliance.connect(auditor).generateComplianceReport(owner.address);
+      await expect(payrollCompliance.connect(employee1).requestComplianceTotalsDecryption(owner.address, 0))
+        .to.be.revertedWithCustomError(payrollCompliance, "AccessControlUnauthorizedAccount");
+      await expect(payrollCompliance.connect(auditor).requestComplianceTotalsDecryption(owner.address, 0))
+        .to.emit(payrollCompliance, "ComplianceTotalsDecryptionRequested");
+      await expect(payrollCompliance.connect(auditor).requestComplianceTotalsDecryption(owner.address, 0))
+        .to.be.revertedWith("Decryption already requested");
+      await fhevm.awaitDecryptionOracle();
+
+      const report = await payrollCompliance.getComplianceReport(owner.address, 0);
+      expect(report.totalsPublished).to.equal(true);
+      expect(report.totalPaid).to.equal(ethers.parseUnits("1400", 6));
+      expect(report.totalTax).to.equal(ethers.parseUnits("140", 6));
+      expect(report.reportHash).to.equal(
+        ethers.solidityPackedKeccak256(
+          ["address", "uint256", "uint256", "uint256", "uint64", "uint64"],
+          [owner.address, report.payPeriod, 1, report.generatedAt, report.totalPaid, report.totalTax]
+        )
+      );
+    });
+  });
+
+  describe("Cohort Anonymity", function () {
+    beforeEach(async function () {
+      for (const account of [employee1, employee2]) {
+        await hireEmployee(account);
+      }
+    });
+
+    it("Should refuse reports over fewer employees than the threshold", async function () {
+      expect(await payrollSystem.minCohortSize()).to.equal(await payrollSystem.DEFAULT_MIN_COHORT_SIZE());
+      await expect(payrollCompliance.connect(auditor).generateComplianceReport(owner.address))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+
+      await payrollCompliance.setMinCohortSize(2);
+      await expect(payrollCompliance.connect(auditor).generateComplianceReport(owner.address))
+        .to.emit(payrollCompliance, "ComplianceReportGenerated");
+    });
+
+    it("Should hold back stored reports once the threshold is raised", async function () {
+      await payrollCompliance.setMinCohortSize(2);
+      await payrollCompliance.connect(auditor).generateComplianceReport(owner.address);
+      await payrollCompliance.setMinCohortSize(3);
+
+      await expect(payrollCompliance.connect(auditor).requestComplianceTotalsDecryption(owner.address, 0))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+      await expect(payrollCompliance.grantComplianceReportAccess(owner.address, 0, auditor.address))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+    });
+
+    it("Should refuse an empty cohort whatever the threshold", async function () {
+      await payrollCompliance.setMinCohortSize(1);
+      await payrollSystem.removeEmployee(employee1.address);
+      await payrollSystem.removeEmployee(employee2.address);
+
+      await expect(payrollCompliance.connect(auditor).generateComplianceReport(owner.address))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+      await expect(payrollCompliance.connect(auditor).checkSalaryCompliance(owner.address))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+    });
+
+    it("Should refuse salary compliance checks below the threshold", async function () {
+      await expect(payrollCompliance.connect(auditor).checkSalaryCompliance(owner.address))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+
+      await payrollCompliance.setMinCohortSize(2);
+      await expect(payrollCompliance.connect(auditor).checkSalaryCompliance(owner.address))
+        .to.emit(payrollCompliance, "SalaryComplianceChecked")
+        .withArgs(owner.address, auditor.address, 2);
+    });
+
+    it("Should only let admins change the threshold, with an event", async function () {
+      await expect(payrollCompliance.setMinCohortSize(3))
+        .to.emit(payrollCompliance, "MinCohortSizeSet")
+        .withArgs(owner.address, 5, 3);
+      await expect(payrollCompliance.setMinCohortSize(0)).to.be.revertedWith("Invalid cohort size");
+      await expect(payrollCompliance.connect(auditor).setMinCohortSize(1))
+        .to.be.revertedWithCustomError(payrollCompliance, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Salary Compliance", function () {
+    it("Should configure the minimum salary and salary bands", async function () {
+      const regulator = (await ethers.getSigners())[7];
+      await payrollSystem.grantRole(await payrollSystem.REGULATOR_ROLE(), regulator.address);
+      await expect(payrollCompliance.connect(regulator).setMinimumSalary(owner.address, ethers.parseUnits("20000", 6)))
+        .to.emit(payrollCompliance, "MinimumSalarySet")
+        .withArgs(owner.address, ethers.parseUnits("20000", 6));
+      await expect(payrollCompliance.addSalaryBand(owner.address, "Engineer II", 80_000, 40_000))
+        .to.be.revertedWith("Invalid salary band");
+      await expect(payrollCompliance.addSalaryBand(owner.address, "Engineer II", 40_000, 80_000))
+        .to.emit(payrollCompliance, "SalaryBandAdded")
+        .withArgs(owner.address, 0, "Engineer II");
+
+      await expect(payrollCompliance.setEmployeeSalaryBand(employee1.address, 0)).to.be.revertedWith("Employee not found");
+      await hireEmployee(employee1);
+      await expect(payrollCompliance.setEmployeeSalaryBand(employee1.address, 1)).to.be.revertedWith("Salary band not found");
+      await payrollCompliance.setEmployeeSalaryBand(employee1.address, 0);
+      expect(await payrollCompliance.getEmployeeSalaryBand(owner.address, employee1.address)).to.deep.equal([true, 0n]);
+      expect(await payrollCompliance.getEmployeeSalaryBand(owner.address, employee2.address)).to.deep.equal([false, 0n]);
+    });
+
+    it("Should not let an employer set its own salary rules", async function () {
+      const otherEmployer = (await ethers.getSigners())[6];
+      await payrollSystem.registerEmployer(otherEmployer.address, "Other Corp");
+      await payrollSystem.connect(otherEmployer).addPayrollOperator(employee2.address);
+
+      for (const tenant of [otherEmployer, employee2]) {
+        await expect(payrollCompliance.connect(tenant).setMinimumSalary(otherEmployer.address, 1))
+          .to.be.revertedWith("Not a compliance authority");
+        await expect(payrollCompliance.connect(tenant).addSalaryBand(otherEmployer.address, "Engineer II", 0, 1))
+          .to.be.revertedWith("Not a compliance authority");
+      }
+      // Not even by appointing itself or its operator as auditor
+      await payrollSystem.connect(otherEmployer).grantAuditorAccess(otherEmployer.address, otherEmployer.address);
+      await payrollSystem.connect(otherEmployer).grantAuditorAccess(employee2.address, otherEmployer.address);
+      for (const tenant of [otherEmployer, employee2]) {
+        await expect(payrollCompliance.connect(tenant).setMinimumSalary(otherEmployer.address, 1))
+          .to.be.revertedWith("Not a compliance authority");
+      }
+      // Nor through an outside auditor it appointed, nor by making it a regulator
+      await payrollSystem.connect(otherEmployer).grantAuditorAccess(auditor.address, otherEmployer.address);
+      await expect(payrollCompliance.connect(auditor).setMinimumSalary(otherEmployer.address, 1))
+        .to.be.revertedWith("Not a compliance authority");
+      await expect(payrollCompliance.connect(auditor).addSalaryBand(otherEmployer.address, "Engineer II", 0, 1))
+        .to.be.revertedWith("Not a compliance authority");
+      const REGULATOR_ROLE = await payrollSystem.REGULATOR_ROLE();
+      await expect(payrollSystem.connect(otherEmployer).grantRole(REGULATOR_ROLE, auditor.address))
+        .to.be.revertedWithCustomError(payrollSystem, "AccessControlUnauthorizedAccount");
+
+      await payrollSystem.grantRole(REGULATOR_ROLE, auditor.address);
+      await expect(payrollCompliance.connect(auditor).setMinimumSalary(otherEmployer.address, 1))
+        .to.emit(payrollCompliance, "MinimumSalarySet")
+        .withArgs(otherEmployer.address, 1);
+    });
+
+    it("Should not let rule setters check salaries", async function () {
+      await payrollSystem.grantRole(await payrollSystem.REGULATOR_ROLE(), auditor.address);
+      await expect(payrollCompliance.connect(auditor).checkSalaryCompliance(owner.address))
+        .to.be.revertedWith("Rule setters cannot check salaries");
+    });
+
+    it("Should only let auditors of the employer check salaries", async function () {
+      await expect(payrollCompliance.connect(employee1).checkSalaryCompliance(owner.address))
+        .to.be.revertedWithCustomError(payrollCompliance, "AccessControlUnauthorizedAccount");
+      await expect(payrollCompliance.connect(employee1).getSalaryViolationCount(owner.address))
+        .to.be.revertedWith("No auditor access for employer");
+    });
+
+    it("Should count salaries below the minimum or outside their band", async function () {
+      // Salaries are compared under encryption
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const systemAddress = await payrollSystem.getAddress();
+      const hire = async (account: SignerWithAddress, salary: string) => {
+        const input = await fhevm
+          .createEncryptedInput(systemAddress, owner.address)
+          .add64(ethers.parseUnits(salary, 6))
+          .add64(1_000)
+          .encrypt();
+        await payrollSystem.addEmployee(account.address, input.handles[0], input.handles[1], input.inputProof);
+      };
+      await hire(employee1, "26000");
+      await hire(employee2, "90000");
+      await payrollCompliance.setMinCohortSize(2);
+
+      // employee2 earns more than the top of their band
+      await payrollCompliance.setMinimumSalary(owner.address, ethers.parseUnits("20000", 6));
+      await payrollCompliance.addSalaryBand(
+        owner.address,
+        "Engineer II",
+        ethers.parseUnits("40000", 6),
+        ethers.parseUnits("80000", 6)
+      );
+      await payrollCompliance.setEmployeeSalaryBand(employee2.address, 0);
+
+      await expect(payrollCompliance.connect(auditor).checkSalaryCompliance(owner.address))
+        .to.emit(payrollCompliance, "SalaryComplianceChecked")
+        .withArgs(owner.address, auditor.address, 2);
+
+      const violations = await payrollCompliance.connect(auditor).getSalaryViolationCount(owner.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, violations, systemAddress, auditor)).to.equal(1);
+      const flag = async (account: SignerWithAddress) =>
+        fhevm.userDecryptEbool(
+          await payrollCompliance.connect(auditor).getSalaryComplianceFlag(owner.address, account.address),
+          systemAddress,
+          auditor
+        );
+      expect(await flag(employee1)).to.equal(true);
+      expect(await flag(employee2)).to.equal(false);
+    });
+  });
+
+  describe("Salary Statistics", function () {
+    it("Should refuse statistics over too few employees", async function () {
+      await expect(payrollCompliance.connect(auditor).generateSalaryStatistics(owner.address))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+      await hireEmployee(employee1);
+      await expect(payrollCompliance.connect(auditor).generateSalaryStatistics(owner.address))
+        .to.be.revertedWith("Cohort below anonymity threshold");
+      await expect(payrollCompliance.connect(employee1).generateSalaryStatistics(owner.address))
+        .to.be.revertedWithCustomError(payrollCompliance, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should compute the total, average, minimum and maximum salary for the auditor", async function () {
+      // Statistics are computed under encryption
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const systemAddress = await payrollSystem.getAddress();
+      const hire = async (account: SignerWithAddress, salary: string) => {
+        const input = await fhevm
+          .createEncryptedInput(systemAddress, owner.address)
+          .add64(ethers.parseUnits(salary, 6))
+          .add64(1_000)
+          .encrypt();
+        await payrollSystem.addEmployee(account.address, input.handles[0], input.handles[1], input.inputProof);
+      };
+      await hire(employee1, "26000");
+      await hire(employee2, "90000");
+      await payrollCompliance.setMinCohortSize(2);
+
+      await expect(payrollCompliance.connect(auditor).generateSalaryStatistics(owner.address))
+        .to.emit(payrollCompliance, "SalaryStatisticsGenerated")
+        .withArgs(owner.address, auditor.address, 2);
+
+      const stats = await payrollCompliance.connect(auditor).getSalaryStatistics(owner.address);
+      const decrypt = async (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, systemAddress, auditor);
+      expect(stats.employeeCount).to.equal(2);
+      expect(await decrypt(stats.total)).to.equal(ethers.parseUnits("116000", 6));
+      expect(await decrypt(stats.average)).to.equal(ethers.parseUnits("58000", 6));
+      expect(await decrypt(stats.minimum)).to.equal(ethers.parseUnits("26000", 6));
+      expect(await decrypt(stats.maximum)).to.equal(ethers.parseUnits("90000", 6));
     });
   });
 
@@ -218,6 +1125,646 @@ describe("Confidential Payroll System", function () {
     });
   });
 
+  describe("Multi-Employer Tenancy", function () {
+    let otherEmployer: SignerWithAddress;
+
+    beforeEach(async function () {
+      otherEmployer = (await ethers.getSigners())[6];
+
+      await expect(payrollSystem.registerEmployer(otherEmployer.address, "Other Corp"))
+        .to.emit(payrollSystem, "EmployerRegistered")
+        .withArgs(otherEmployer.address, "Other Corp");
+    });
+
+    it("Should register employers", async function () {
+      expect(await payrollSystem.isEmployer(otherEmployer.address)).to.be.true;
+      expect(await payrollSystem.getCompanyName(otherEmployer.address)).to.equal("Other Corp");
+      expect(await payrollSystem.getAllEmployers()).to.deep.equal([owner.address, otherEmployer.address]);
+      expect(await payrollSystem.employerOf(otherEmployer.address)).to.equal(otherEmployer.address);
+      expect(await payrollSystem.employerOf(employer.address)).to.equal(owner.address);
+
+      const otherConfig = await payrollSystem.getEmployerConfig(otherEmployer.address);
+      expect(otherConfig.treasuryAddress).to.equal(otherEmployer.address);
+      expect(otherConfig.payPeriodDays).to.equal(14);
+    });
+
+    it("Should keep each employer's roster separate", async function () {
+      await hireEmployee(employee1);
+      await hireEmployee(employee1, otherEmployer);
+      await payrollSystem.removeEmployee(employee1.address);
+
+      expect(await payrollSystem.isEmployee(employee1.address, owner.address)).to.be.false;
+      expect(await payrollSystem.isEmployee(employee1.address, otherEmployer.address)).to.be.true;
+      expect(await payrollSystem.totalEmployees(owner.address)).to.equal(0);
+      expect(await payrollSystem.totalEmployees(otherEmployer.address)).to.equal(1);
+    });
+
+    it("Should act for the employer a payroll operator belongs to", async function () {
+      await expect(payrollSystem.connect(otherEmployer).addPayrollOperator(employee2.address))
+        .to.emit(payrollSystem, "PayrollOperatorAdded")
+        .withArgs(otherEmployer.address, employee2.address);
+      expect(await payrollSystem.employerOf(employee2.address)).to.equal(otherEmployer.address);
+
+      await hireEmployee(employee1, employee2);
+      expect(await payrollSystem.isEmployee(employee1.address, otherEmployer.address)).to.be.true;
+      expect(await payrollSystem.isEmployee(employee1.address, owner.address)).to.be.false;
+
+      await payrollSystem.connect(otherEmployer).removePayrollOperator(employee2.address);
+      expect(await payrollSystem.employerOf(employee2.address)).to.equal(ethers.ZeroAddress);
+      await expect(hireEmployee(auditor, employee2))
+        .to.be.revertedWithCustomError(payrollSystem, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not let an employer take over another employer's administrators", async function () {
+      const PAYROLL_ADMIN_ROLE = await payrollSystem.PAYROLL_ADMIN_ROLE();
+      await payrollSystem.grantRole(PAYROLL_ADMIN_ROLE, employee2.address);
+
+      await expect(
+        payrollSystem.connect(otherEmployer).addPayrollOperator(employee2.address)
+      ).to.be.revertedWith("Account holds a global payroll role");
+      await expect(
+        payrollSystem.connect(otherEmployer).addPayrollOperator(employer.address)
+      ).to.be.revertedWith("Account holds a global payroll role");
+      await expect(
+        payrollSystem.connect(otherEmployer).removePayrollOperator(employee2.address)
+      ).to.be.revertedWith("Not an operator of employer");
+
+      expect(await payrollSystem.employerOf(employee2.address)).to.equal(owner.address);
+      expect(await payrollSystem.hasRole(PAYROLL_ADMIN_ROLE, employee2.address)).to.be.true;
+    });
+
+    it("Should scope an operator's payroll roles to its employer", async function () {
+      await payrollSystem.connect(otherEmployer).addPayrollOperator(employee2.address);
+      await hireEmployee(employee1);
+
+      // Neither the other employer nor its operator can reach the primary employer's roster
+      expect(await payrollSystem.hasRole(await payrollSystem.PAYROLL_ADMIN_ROLE(), employee2.address)).to.be.false;
+      await expect(
+        payrollSystem.connect(employee2).removeEmployee(employee1.address)
+      ).to.be.revertedWith("Employee not found");
+      await expect(
+        payrollSystem.connect(otherEmployer).removeEmployee(employee1.address)
+      ).to.be.revertedWith("Employee not found");
+      expect(await payrollSystem.isEmployee(employee1.address, owner.address)).to.be.true;
+    });
+
+    it("Should run a salary change through the employer's own approver", async function () {
+      await hireEmployee(employee1, otherEmployer);
+      await expect(payrollExtension.connect(otherEmployer).addSalaryApprover(employee2.address))
+        .to.be.revertedWith("Not an operator of employer");
+      await payrollSystem.connect(otherEmployer).addPayrollOperator(employee2.address);
+      await expect(payrollExtension.connect(otherEmployer).addSalaryApprover(employee2.address))
+        .to.emit(payrollExtension, "SalaryApproverAdded")
+        .withArgs(otherEmployer.address, employee2.address);
+      expect(await payrollExtension.isSalaryApprover(employee2.address, otherEmployer.address)).to.be.true;
+
+      const raise = await encryptFor(otherEmployer, ethers.parseUnits("28000", 6));
+      await expect(
+        payrollSystem.connect(otherEmployer).proposeSalaryChange(employee1.address, raise.handles[0], raise.inputProof)
+      ).to.emit(payrollSystem, "SalaryChangeProposed")
+        .withArgs(otherEmployer.address, 0, employee1.address, otherEmployer.address);
+
+      // Approvers of the primary employer cannot approve for another employer
+      await payrollSystem.grantRole(await payrollSystem.SALARY_APPROVER_ROLE(), employer.address);
+      await expect(payrollExtension.connect(employer).approveSalaryChange(0)).to.be.revertedWith("Salary change not found");
+      await expect(payrollExtension.connect(employee2).approveSalaryChange(0))
+        .to.emit(payrollExtension, "SalaryChangeApproved");
+
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(payrollExtension.connect(otherEmployer).executeSalaryChange(0))
+        .to.emit(payrollExtension, "SalaryChangeExecuted")
+        .withArgs(otherEmployer.address, 0);
+      const change = await payrollExtension.getSalaryChange(otherEmployer.address, 0);
+      expect(change.approver).to.equal(employee2.address);
+      expect(change.status).to.equal(await payrollExtension.SALARY_CHANGE_EXECUTED());
+      expect(await payrollExtension.getSalaryChangeCount(owner.address)).to.equal(0);
+
+      if (fhevm.isMock) {
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            await payrollSystem.getEmployeeSalary(employee1.address, otherEmployer.address),
+            await payrollSystem.getAddress(),
+            employee1
+          )
+        ).to.equal(ethers.parseUnits("28000", 6));
+      }
+
+      // Removing the operator also ends its approvals
+      await payrollSystem.connect(otherEmployer).removePayrollOperator(employee2.address);
+      expect(await payrollExtension.isSalaryApprover(employee2.address, otherEmployer.address)).to.be.false;
+    });
+
+    it("Should not let an employer draw payroll from another employer's treasury", async function () {
+      // The primary employer's treasury made the payroll system an operator in the setup
+      await expect(
+        payrollSystem.connect(otherEmployer).configurePayroll(owner.address, 14)
+      ).to.be.revertedWith("Treasury must be the employer");
+      expect((await payrollSystem.getEmployerConfig(otherEmployer.address)).treasuryAddress)
+        .to.equal(otherEmployer.address);
+
+      await expect(payrollSystem.connect(otherEmployer).configurePayroll(otherEmployer.address, 30))
+        .to.emit(payrollSystem, "PayrollConfigured")
+        .withArgs(otherEmployer.address, otherEmployer.address, 30);
+    });
+
+    it("Should block a deactivated employer", async function () {
+      await expect(payrollSystem.deactivateEmployer(otherEmployer.address))
+        .to.emit(payrollSystem, "EmployerDeactivated")
+        .withArgs(otherEmployer.address);
+
+      expect(await payrollSystem.isEmployer(otherEmployer.address)).to.be.false;
+      await expect(payrollSystem.connect(otherEmployer).processPayroll()).to.be.revertedWith("Employer not active");
+    });
+
+    it("Should scope auditors to the employers that granted access", async function () {
+      await expect(
+        payrollCompliance.connect(auditor).generateComplianceReport(otherEmployer.address)
+      ).to.be.revertedWith("No auditor access for employer");
+
+      await expect(payrollSystem.connect(otherEmployer).grantAuditorAccess(auditor.address, otherEmployer.address))
+        .to.emit(payrollSystem, "AuditorAccessGranted")
+        .withArgs(auditor.address, otherEmployer.address);
+      expect(await payrollSystem.hasAuditorAccess(auditor.address, otherEmployer.address)).to.be.true;
+
+      await payrollSystem.connect(otherEmployer).revokeAuditorAccess(auditor.address, otherEmployer.address);
+      expect(await payrollSystem.hasAuditorAccess(auditor.address, otherEmployer.address)).to.be.false;
+      expect(await payrollSystem.hasAuditorAccess(auditor.address, owner.address)).to.be.true;
+    });
+
+    it("Should only let admins register employers", async function () {
+      await expect(
+        payrollSystem.connect(otherEmployer).registerEmployer(employee2.address, "")
+      ).to.be.revertedWithCustomError(payrollSystem, "AccessControlUnauthorizedAccount");
+      await expect(
+        payrollSystem.registerEmployer(otherEmployer.address, "")
+      ).to.be.revertedWith("Employer already registered");
+    });
+  });
+
+  describe("Auditor Grants", function () {
+    const day = 24 * 60 * 60;
+    let scopedAuditor: SignerWithAddress;
+
+    beforeEach(async function () {
+      [, , , , , , scopedAuditor] = await ethers.getSigners();
+    });
+
+    it("Should only give access between the start and expiry of a grant", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      await expect(
+        payrollCompliance.grantScopedAuditorAccess(scopedAuditor.address, owner.address, now + day, now, 0, 10)
+      ).to.be.revertedWith("Invalid grant window");
+      await expect(
+        payrollCompliance.connect(employee1).grantScopedAuditorAccess(scopedAuditor.address, owner.address, now, now + day, 0, 10)
+      ).to.be.revertedWith("Not authorized for employer");
+
+      await expect(
+        payrollCompliance.grantScopedAuditorAccess(scopedAuditor.address, owner.address, now + day, now + 3 * day, 0, 10)
+      ).to.emit(payrollSystem, "AuditorGrantCreated")
+        .withArgs(1, scopedAuditor.address, owner.address, now + day, now + 3 * day, 0, 10);
+      expect(await payrollSystem.hasAuditorAccess(scopedAuditor.address, owner.address)).to.be.false;
+      await expect(payrollCompliance.connect(scopedAuditor).generateComplianceReport(owner.address))
+        .to.be.revertedWith("No auditor access for employer");
+
+      await ethers.provider.send("evm_increaseTime", [day]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await payrollSystem.hasAuditorAccess(scopedAuditor.address, owner.address)).to.be.true;
+      await payrollCompliance.setMinCohortSize(1);
+      await hireEmployee(employee1);
+      await payrollCompliance.connect(scopedAuditor).generateComplianceReport(owner.address);
+      expect(await payrollCompliance.getActiveAuditorGrants()).to.deep.equal([0n, 1n]);
+
+      await ethers.provider.send("evm_increaseTime", [2 * day]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await payrollSystem.hasAuditorAccess(scopedAuditor.address, owner.address)).to.be.false;
+      expect(await payrollCompliance.getActiveAuditorGrants()).to.deep.equal([0n]);
+      expect(await payrollCompliance.getAuditorGrantCount()).to.equal(2);
+    });
+
+    it("Should refuse reports on pay periods outside the grant's scope", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      const period = await payrollSystem.getCurrentPayPeriod(owner.address);
+      await expect(
+        payrollCompliance.grantScopedAuditorAccess(scopedAuditor.address, owner.address, now, now + day, period + 2n, period + 1n)
+      ).to.be.revertedWith("Invalid period scope");
+      await payrollCompliance.grantScopedAuditorAccess(scopedAuditor.address, owner.address, now, now + day, period + 1n, period + 4n);
+
+      expect(await payrollCompliance.hasAuditorAccessForPeriod(scopedAuditor.address, owner.address, period)).to.be.false;
+      expect(await payrollCompliance.hasAuditorAccessForPeriod(scopedAuditor.address, owner.address, period + 1n)).to.be.true;
+      await expect(payrollCompliance.connect(scopedAuditor).generateComplianceReport(owner.address))
+        .to.be.revertedWith("Period outside auditor scope");
+    });
+
+    it("Should keep revoked and replaced grants in the history", async function () {
+      await payrollSystem.grantAuditorAccess(scopedAuditor.address, owner.address);
+      await payrollSystem.grantAuditorAccess(scopedAuditor.address, owner.address);
+      expect((await payrollCompliance.getAuditorGrant(1)).endedAt).to.be.greaterThan(0);
+
+      await payrollSystem.revokeAuditorAccess(scopedAuditor.address, owner.address);
+      expect((await payrollCompliance.getAuditorGrant(2)).endedAt).to.be.greaterThan(0);
+      expect(await payrollCompliance.getActiveAuditorGrants()).to.deep.equal([0n]);
+      await expect(payrollCompliance.getAuditorGrant(3)).to.be.revertedWith("Grant not found");
+    });
+  });
+
+  describe("Earned Wage Access", function () {
+    it("Should only let employers set an advance limit of at most 100%", async function () {
+      await expect(payrollExtension.setAdvanceLimit(5_000))
+        .to.emit(payrollExtension, "AdvanceLimitSet")
+        .withArgs(owner.address, 5_000);
+      expect((await payrollSystem.getEmployerConfig(owner.address)).advanceLimitBps).to.equal(5_000);
+
+      await expect(payrollExtension.setAdvanceLimit(10_001)).to.be.revertedWith("Invalid advance limit");
+      await expect(payrollExtension.connect(employee1).setAdvanceLimit(5_000)).to.be.revertedWith("Not an employer");
+    });
+
+    it("Should refuse advances while the employer has not enabled them", async function () {
+      await expect(
+        payrollExtension.connect(employee1).requestWageAdvance(owner.address, ethers.ZeroHash, "0x")
+      ).to.be.revertedWith("Wage advances disabled");
+    });
+
+    it("Should advance earned pay within the limit and deduct it from the next payroll", async function () {
+      // Advances need real encrypted inputs to be checked against the limit
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const systemAddress = await payrollSystem.getAddress();
+      const decrypt = async (handle: string, contractAddress: string, signer: SignerWithAddress = employee1) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+
+      // 36,500 a year is 1,400 per bi-weekly period, taxed at a flat 10%
+      const hire = await fhevm
+        .createEncryptedInput(systemAddress, owner.address)
+        .add64(ethers.parseUnits("36500", 6))
+        .add64(1_000)
+        .encrypt();
+      await payrollSystem.addEmployee(employee1.address, hire.handles[0], hire.handles[1], hire.inputProof);
+      await payrollExtension.setAdvanceLimit(5_000);
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      const requestAdvance = async (amount: bigint) => {
+        const input = await fhevm.createEncryptedInput(systemAddress, employee1.address).add64(amount).encrypt();
+        await expect(
+          payrollExtension.connect(employee1).requestWageAdvance(owner.address, input.handles[0], input.inputProof)
+        ).to.emit(payrollExtension, "WageAdvancePaid");
+      };
+
+      // 400 fits within half of the 1,400 earned; another 400 would exceed it and pays nothing
+      await requestAdvance(ethers.parseUnits("400", 6));
+      await requestAdvance(ethers.parseUnits("400", 6));
+      expect(await decrypt(await payrollExtension.getOutstandingAdvance(employee1.address, owner.address), systemAddress))
+        .to.equal(ethers.parseUnits("400", 6));
+
+      // The employer sees each advance and the balance outstanding
+      const advances = await payrollSystem.getPaymentHistory(employee1.address, 2, owner.address);
+      expect(await decrypt(advances[0].encryptedAmount, systemAddress, owner)).to.equal(ethers.parseUnits("400", 6));
+      expect(await decrypt(advances[1].encryptedAmount, systemAddress, owner)).to.equal(0);
+      expect(
+        await decrypt(await payrollExtension.getOutstandingAdvance(employee1.address, owner.address), systemAddress, owner)
+      ).to.equal(ethers.parseUnits("400", 6));
+
+      // Payday nets 1,400 - 140 tax - 400 advance
+      await payrollSystem.processPayroll();
+      const outstanding = await payrollExtension.getOutstandingAdvance(employee1.address, owner.address);
+      expect(await decrypt(outstanding, systemAddress)).to.equal(0);
+      expect(await decrypt(outstanding, systemAddress, owner)).to.equal(0);
+      expect(await decrypt(await payrollToken.confidentialBalanceOf(employee1.address), await payrollToken.getAddress()))
+        .to.equal(ethers.parseUnits("1260", 6));
+    });
+  });
+
+  describe("Deductions", function () {
+    beforeEach(async function () {
+      await expect(payrollExtension.addDeductionType("Health insurance", employer.address, false))
+        .to.emit(payrollExtension, "DeductionTypeAdded")
+        .withArgs(owner.address, 0, "Health insurance");
+      await payrollExtension.addDeductionType("Retirement", employer.address, true);
+    });
+
+    it("Should apply deduction types in the order they were added until reordered", async function () {
+      expect(await payrollExtension.getDeductionOrder(owner.address)).to.deep.equal([0n, 1n]);
+
+      await expect(payrollExtension.setDeductionOrder([1, 0]))
+        .to.emit(payrollExtension, "DeductionOrderSet")
+        .withArgs(owner.address);
+      expect(await payrollExtension.getDeductionOrder(owner.address)).to.deep.equal([1n, 0n]);
+      // Read for the employer named, whoever asks
+      expect(await payrollExtension.connect(employee1).getDeductionOrder(owner.address)).to.deep.equal([1n, 0n]);
+      expect(await payrollExtension.getDeductionOrder(employer.address)).to.deep.equal([]);
+
+      await expect(payrollExtension.setDeductionOrder([1, 1])).to.be.revertedWith("Invalid deduction order");
+      await expect(payrollExtension.setDeductionOrder([0])).to.be.revertedWith("Invalid deduction order");
+    });
+
+    it("Should only let payroll admins manage deductions", async function () {
+      await expect(
+        payrollExtension.connect(employee1).addDeductionType("Union dues", employee1.address, false)
+      ).to.be.revertedWithCustomError(payrollExtension, "AccessControlUnauthorizedAccount");
+      await expect(payrollExtension.addDeductionType("Union dues", ethers.ZeroAddress, false))
+        .to.be.revertedWith("Invalid payee");
+
+      await expect(payrollExtension.deactivateDeductionType(1))
+        .to.emit(payrollExtension, "DeductionTypeDeactivated")
+        .withArgs(owner.address, 1);
+      expect((await payrollExtension.getDeductionTypes(owner.address))[1].isActive).to.be.false;
+      await expect(payrollExtension.deactivateDeductionType(2)).to.be.revertedWith("Deduction type not found");
+    });
+
+    it("Should withhold deductions from net pay and list them on the payslip", async function () {
+      // Deductions need real encrypted amounts and rates
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const systemAddress = await payrollSystem.getAddress();
+      const encrypt = async (...values: bigint[]) => {
+        const input = fhevm.createEncryptedInput(systemAddress, owner.address);
+        values.forEach((value) => input.add64(value));
+        return input.encrypt();
+      };
+
+      // 1,400 per bi-weekly period, taxed at a flat 10%
+      const hire = await encrypt(ethers.parseUnits("36500", 6), 1_000n);
+      await payrollSystem.addEmployee(employee1.address, hire.handles[0], hire.handles[1], hire.inputProof);
+
+      // 50 for health insurance and 5% of gross (70) for retirement, retirement first
+      const health = await encrypt(ethers.parseUnits("50", 6));
+      await expect(payrollExtension.setEmployeeDeduction(employee1.address, 0, health.handles[0], health.inputProof))
+        .to.emit(payrollExtension, "EmployeeDeductionSet")
+        .withArgs(employee1.address, 0);
+      const retirement = await encrypt(500n);
+      await payrollExtension.setEmployeeDeduction(employee1.address, 1, retirement.handles[0], retirement.inputProof);
+      await payrollExtension.setDeductionOrder([1, 0]);
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+
+      const [payment] = await payrollSystem.getPaymentHistory(employee1.address, 1, owner.address);
+      const lines = await payrollExtension.getPayslipDeductions(payment.paymentId, owner.address);
+      expect(lines.map((line: { deductionTypeId: bigint }) => line.deductionTypeId)).to.deep.equal([1n, 0n]);
+
+      const decrypt = (handle: string, contractAddress: string, signer: SignerWithAddress) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+      expect(await decrypt(payment.encryptedAmount, systemAddress, employee1)).to.equal(ethers.parseUnits("1140", 6));
+      expect(await decrypt(lines[0].amount, systemAddress, employee1)).to.equal(ethers.parseUnits("70", 6));
+      expect(await decrypt(await payrollExtension.getDeductionYTD(employee1.address, 0, owner.address), systemAddress, employee1))
+        .to.equal(ethers.parseUnits("50", 6));
+      expect(await decrypt(await payrollToken.confidentialBalanceOf(employer.address), await payrollToken.getAddress(), employer))
+        .to.equal(ethers.parseUnits("120", 6));
+    });
+  });
+
+  describe("Expense Reimbursements", function () {
+    const receiptHash = ethers.keccak256(ethers.toUtf8Bytes("receipt-001"));
+
+    it("Should let employers delegate claim approval", async function () {
+      await expect(payrollExtension.addExpenseApprover(auditor.address))
+        .to.emit(payrollExtension, "ExpenseApproverAdded")
+        .withArgs(owner.address, auditor.address);
+      expect(await payrollExtension.isExpenseApprover(auditor.address, owner.address)).to.be.true;
+      await expect(payrollExtension.addExpenseApprover(auditor.address)).to.be.revertedWith("Already an approver");
+
+      await expect(payrollExtension.removeExpenseApprover(auditor.address))
+        .to.emit(payrollExtension, "ExpenseApproverRemoved")
+        .withArgs(owner.address, auditor.address);
+      await expect(payrollExtension.connect(employee1).addExpenseApprover(employee1.address))
+        .to.be.revertedWith("Not an employer");
+    });
+
+    it("Should only accept claims from employees with a receipt", async function () {
+      await expect(
+        payrollExtension.connect(employee1).submitExpenseClaim(owner.address, ethers.ZeroHash, "0x", receiptHash)
+      ).to.be.revertedWith("Employee not found");
+
+      await hireEmployee(employee1);
+      const claim = await encryptFor(employee1, ethers.parseUnits("120", 6));
+      await expect(
+        payrollExtension
+          .connect(employee1)
+          .submitExpenseClaim(owner.address, claim.handles[0], claim.inputProof, ethers.ZeroHash)
+      ).to.be.revertedWith("Invalid receipt hash");
+      await expect(payrollExtension.approveExpenseClaim(owner.address, 0)).to.be.revertedWith("Claim not found");
+    });
+
+    it("Should not let an approver review their own claim", async function () {
+      // Claims need real encrypted amounts
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      await hireEmployee(employee1);
+      await payrollExtension.addExpenseApprover(employee1.address);
+      const claim = await encryptFor(employee1, ethers.parseUnits("120", 6));
+      await payrollExtension
+        .connect(employee1)
+        .submitExpenseClaim(owner.address, claim.handles[0], claim.inputProof, receiptHash);
+
+      await expect(
+        payrollExtension.connect(employee1).approveExpenseClaim(owner.address, 0)
+      ).to.be.revertedWith("Claimant cannot review");
+      await expect(
+        payrollExtension.connect(employee1).rejectExpenseClaim(owner.address, 0)
+      ).to.be.revertedWith("Claimant cannot review");
+      await expect(payrollExtension.approveExpenseClaim(owner.address, 0))
+        .to.emit(payrollExtension, "ExpenseClaimApproved")
+        .withArgs(owner.address, 0, owner.address);
+    });
+
+    it("Should pay approved claims untaxed with the next payroll", async function () {
+      // Claims need real encrypted amounts
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const systemAddress = await payrollSystem.getAddress();
+      const decrypt = (handle: string, contractAddress: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, employee1);
+
+      // 1,400 per bi-weekly period, taxed at a flat 10%
+      const hire = await fhevm
+        .createEncryptedInput(systemAddress, owner.address)
+        .add64(ethers.parseUnits("36500", 6))
+        .add64(1_000)
+        .encrypt();
+      await payrollSystem.addEmployee(employee1.address, hire.handles[0], hire.handles[1], hire.inputProof);
+      await payrollExtension.addExpenseApprover(auditor.address);
+
+      const submitClaim = async (amount: bigint) => {
+        const input = await fhevm.createEncryptedInput(systemAddress, employee1.address).add64(amount).encrypt();
+        await expect(
+          payrollExtension.connect(employee1).submitExpenseClaim(owner.address, input.handles[0], input.inputProof, receiptHash)
+        ).to.emit(payrollExtension, "ExpenseClaimSubmitted");
+      };
+      await submitClaim(ethers.parseUnits("120", 6));
+      await submitClaim(ethers.parseUnits("80", 6));
+
+      await expect(payrollExtension.connect(employee2).approveExpenseClaim(owner.address, 0))
+        .to.be.revertedWith("Not an expense approver");
+      await expect(payrollExtension.connect(auditor).approveExpenseClaim(owner.address, 0))
+        .to.emit(payrollExtension, "ExpenseClaimApproved")
+        .withArgs(owner.address, 0, auditor.address);
+      await expect(payrollExtension.rejectExpenseClaim(owner.address, 1))
+        .to.emit(payrollExtension, "ExpenseClaimRejected")
+        .withArgs(owner.address, 1, owner.address);
+      await expect(payrollExtension.rejectExpenseClaim(owner.address, 0)).to.be.revertedWith("Claim already reviewed");
+      expect((await payrollExtension.getExpenseClaim(owner.address, 0)).status)
+        .to.equal(await payrollExtension.CLAIM_STATUS_APPROVED());
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+
+      // Net pay of 1,260 plus the 120 claim; the rejected claim is not paid
+      const [payment] = await payrollSystem.getPaymentHistory(employee1.address, 1, owner.address);
+      expect(await decrypt(payment.encryptedAmount, systemAddress)).to.equal(ethers.parseUnits("1260", 6));
+      expect(await decrypt(await payrollExtension.getPayslipReimbursement(payment.paymentId, owner.address), systemAddress))
+        .to.equal(ethers.parseUnits("120", 6));
+      expect(await decrypt(await payrollToken.confidentialBalanceOf(employee1.address), await payrollToken.getAddress()))
+        .to.equal(ethers.parseUnits("1380", 6));
+      // The run total counts the reimbursement the payslip drew from the treasury
+      const run = await payrollSystem.payrollRuns(owner.address, 1);
+      const decryptForEmployer = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, systemAddress, owner);
+      expect(await decryptForEmployer(run.encryptedTotal)).to.equal(ethers.parseUnits("1520", 6));
+      expect(await decryptForEmployer(run.encryptedShortfall)).to.equal(0n);
+    });
+  });
+
+  describe("Pay Splitting", function () {
+    it("Should validate payout destinations", async function () {
+      await expect(
+        payrollExtension.connect(employee1).setPayoutDestinations(owner.address, [], "0x")
+      ).to.be.revertedWith("Employee not found");
+
+      await hireEmployee(employee1);
+      await expect(
+        payrollExtension.connect(employee1).setPayoutDestinations(
+          owner.address, [{ wallet: employee1.address, isRate: false, value: ethers.ZeroHash }], "0x"
+        )
+      ).to.be.revertedWith("Invalid payout destination");
+
+      const destinations = Array(6).fill({ wallet: employee2.address, isRate: false, value: ethers.ZeroHash });
+      await expect(
+        payrollExtension.connect(employee1).setPayoutDestinations(owner.address, destinations, "0x")
+      ).to.be.revertedWith("Too many payout destinations");
+
+      await expect(
+        payrollExtension.connect(employee1).setPayoutDestinations(owner.address, [], "0x")
+      ).to.emit(payrollExtension, "PayoutDestinationsSet")
+        .withArgs(employee1.address, owner.address, 0);
+    });
+
+    it("Should split net pay across destinations with the remainder to the employee", async function () {
+      // Splits need real encrypted amounts and rates
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const systemAddress = await payrollSystem.getAddress();
+      const tokenAddress = await payrollToken.getAddress();
+      const balanceOf = async (signer: SignerWithAddress) =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await payrollToken.confidentialBalanceOf(signer.address),
+          tokenAddress,
+          signer,
+        );
+
+      // 1,400 per bi-weekly period, taxed at a flat 10%
+      const hire = await fhevm
+        .createEncryptedInput(systemAddress, owner.address)
+        .add64(ethers.parseUnits("36500", 6))
+        .add64(1_000)
+        .encrypt();
+      await payrollSystem.addEmployee(employee1.address, hire.handles[0], hire.handles[1], hire.inputProof);
+
+      // 10% of net pay to savings, then a fixed 100
+      const split = await fhevm
+        .createEncryptedInput(systemAddress, employee1.address)
+        .add64(1_000)
+        .add64(ethers.parseUnits("100", 6))
+        .encrypt();
+      await payrollExtension.connect(employee1).setPayoutDestinations(
+        owner.address,
+        [
+          { wallet: employee2.address, isRate: true, value: split.handles[0] },
+          { wallet: auditor.address, isRate: false, value: split.handles[1] },
+        ],
+        split.inputProof
+      );
+
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+
+      expect(await balanceOf(employee2)).to.equal(ethers.parseUnits("126", 6));
+      expect(await balanceOf(auditor)).to.equal(ethers.parseUnits("100", 6));
+      expect(await balanceOf(employee1)).to.equal(ethers.parseUnits("1034", 6));
+    });
+  });
+
+  describe("Emergency Pause", function () {
+    it("Should let a guardian pause payroll operations", async function () {
+      await payrollSystem.grantRole(await payrollSystem.GUARDIAN_ROLE(), employer.address);
+      await expect(payrollSystem.connect(employer).pause())
+        .to.emit(payrollSystem, "Paused")
+        .withArgs(employer.address);
+
+      expect(await payrollSystem.paused()).to.be.true;
+      await expect(payrollSystem.processPayroll()).to.be.revertedWithCustomError(payrollSystem, "EnforcedPause");
+      await expect(payrollSystem.startPayrollRun()).to.be.revertedWithCustomError(payrollSystem, "EnforcedPause");
+      await expect(hireEmployee(employee1)).to.be.revertedWithCustomError(payrollSystem, "EnforcedPause");
+
+      await payrollSystem.unpause();
+      expect(await payrollSystem.paused()).to.be.false;
+    });
+
+    it("Should only allow GUARDIAN to pause", async function () {
+      await expect(payrollSystem.connect(employee1).pause())
+        .to.be.revertedWithCustomError(payrollSystem, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should pause the token through its guardians", async function () {
+      await expect(payrollToken.connect(employer).emergencyPause()).to.be.revertedWith("Not a guardian");
+
+      await payrollToken.addGuardian(employer.address);
+      await payrollToken.connect(employer).emergencyPause();
+
+      expect(await payrollToken.paused()).to.be.true;
+      await expect(payrollToken.topUpPayrollBudget(employer.address, 1_000))
+        .to.be.revertedWithCustomError(payrollToken, "EnforcedPause");
+    });
+
+    it("Should let employers withdraw their escrowed budget while the token is paused", async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      await payrollToken.addGuardian(employer.address);
+      await payrollToken.connect(employer).emergencyPause();
+
+      const tokenAddress = await payrollToken.getAddress();
+      const withdrawal = await fhevm
+        .createEncryptedInput(tokenAddress, owner.address)
+        .add64(ethers.parseUnits("1000", 6))
+        .encrypt();
+      await expect(payrollToken.emergencyWithdraw(withdrawal.handles[0], withdrawal.inputProof))
+        .to.emit(payrollToken, "PayrollBudgetWithdrawn");
+
+      const balance = await payrollToken.confidentialBalanceOf(owner.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, owner))
+        .to.equal(ethers.parseUnits("101000", 6));
+      expect(await payrollToken.paused()).to.be.true;
+    });
+  });
+
   describe("PayrollToken", function () {
     it("Should add and remove payroll managers", async function () {
       await payrollToken.addPayrollManager(employer.address);
@@ -230,7 +1777,157 @@ describe("Confidential Payroll System", function () {
     it("Should only allow owner to manage payroll managers", async function () {
       await expect(
         payrollToken.connect(employee1).addPayrollManager(employee2.address)
-      ).to.be.revertedWith("Ownable:");
+      ).to.be.revertedWithCustomError(payrollToken, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should only pay from a treasury that approved the payroll manager", async function () {
+      await expect(
+        payrollToken.processPayrollPaymentFrom(employee2.address, employee1.address, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWith("Not a treasury operator");
+      await expect(payrollToken.treasuryBudgetOf(employee2.address)).to.be.revertedWith("Not a treasury operator");
+
+      await expect(
+        payrollToken.connect(employee1).processPayrollPaymentFrom(owner.address, employee1.address, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWith("Not a payroll manager");
+    });
+
+    it("Should escrow a payroll budget funded from the caller's balance", async function () {
+      await expect(payrollToken.topUpPayrollBudget(employer.address, 50_000))
+        .to.emit(payrollToken, "PayrollBudgetTopUp");
+
+      expect(await payrollToken.getPayrollBudget(employer.address)).to.not.equal(ethers.ZeroHash);
+      expect(await payrollToken.getPayrollBudget(employee1.address)).to.equal(ethers.ZeroHash);
+      await expect(payrollToken.connect(employee1).topUpPayrollBudget(employer.address, 50_000))
+        .to.be.revertedWithCustomError(payrollToken, "ERC7984ZeroBalance");
+
+      if (fhevm.isMock) {
+        const tokenAddress = await payrollToken.getAddress();
+        const budget = await payrollToken.getPayrollBudget(employer.address);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, budget, tokenAddress, employer)).to.equal(50_000);
+        const balance = await payrollToken.confidentialBalanceOf(owner.address);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, owner))
+          .to.equal(ethers.parseUnits("100000", 6) - 50_000n);
+      }
+    });
+
+    it("Should pay payroll runs only out of the escrowed budget", async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      const tokenAddress = await payrollToken.getAddress();
+      const decrypt = async (handle: string, contractAddress: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, owner);
+
+      // Leave room in escrow for one of the two 1,400 payslips; the rest returns to the treasury
+      const withdrawal = await fhevm
+        .createEncryptedInput(tokenAddress, owner.address)
+        .add64(ethers.parseUnits("898500", 6))
+        .encrypt();
+      await expect(payrollToken.emergencyWithdraw(withdrawal.handles[0], withdrawal.inputProof))
+        .to.emit(payrollToken, "PayrollBudgetWithdrawn");
+      const balance = ethers.parseUnits("998500", 6);
+      expect(await decrypt(await payrollToken.confidentialBalanceOf(owner.address), tokenAddress)).to.equal(balance);
+
+      await hireEmployee(employee1);
+      await hireEmployee(employee2);
+      await ethers.provider.send("evm_increaseTime", [14 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await payrollSystem.processPayroll();
+
+      const systemAddress = await payrollSystem.getAddress();
+      const run = await payrollSystem.payrollRuns(owner.address, 1);
+      expect(await decrypt(run.encryptedTotal, systemAddress)).to.equal(ethers.parseUnits("1400", 6));
+      expect(await decrypt(run.encryptedShortfall, systemAddress)).to.equal(ethers.parseUnits("1400", 6));
+
+      // The treasury's own balance was not touched
+      expect(await decrypt(await payrollToken.getPayrollBudget(owner.address), tokenAddress))
+        .to.equal(ethers.parseUnits("100", 6));
+      expect(await decrypt(await payrollToken.confidentialBalanceOf(owner.address), tokenAddress)).to.equal(balance);
+    });
+
+    it("Should reject salary batches with mismatched arrays", async function () {
+      await expect(
+        payrollToken.batchProcessSalaries([employee1.address], [], [ethers.ZeroHash])
+      ).to.be.revertedWith("Array length mismatch");
+    });
+  });
+
+  describe("ERC20 Wrapper", function () {
+    beforeEach(async function () {
+      // Wrapping and unwrapping need real encrypted inputs and the mock decryption oracle
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+    });
+
+    it("Should only let the wrapper mint and burn payroll tokens", async function () {
+      await expect(payrollToken.setWrapper(await wrapper.getAddress()))
+        .to.emit(payrollToken, "WrapperSet")
+        .withArgs(await wrapper.getAddress());
+      await expect(payrollToken.mintWrapped(owner.address, 1_000)).to.be.revertedWith("Not the wrapper");
+      await expect(payrollToken.burnWrapped(owner.address, ethers.ZeroHash)).to.be.revertedWith("Not the wrapper");
+    });
+
+    it("Should mint, wrap, pay and unwrap end to end", async function () {
+      const systemAddress = await payrollSystem.getAddress();
+      const wrapperAddress = await wrapper.getAddress();
+
+      // Mint: MockUSDZ hands out 10 USDZ per call, which the treasury wraps 1:1
+      const deposit = ethers.parseUnits("10", 6);
+      const reserve = await usdz.balanceOf(wrapperAddress);
+      await usdz.mint(owner.address);
+      await usdz.approve(wrapperAddress, deposit);
+      await expect(wrapper.wrap(owner.address, deposit))
+        .to.emit(wrapper, "Wrapped")
+        .withArgs(owner.address, owner.address, deposit);
+      expect(await usdz.balanceOf(wrapperAddress)).to.equal(reserve + deposit);
+
+      // Pay: a 5 USDZ bonus taxed at a flat 20%
+      const hire = await fhevm
+        .createEncryptedInput(systemAddress, owner.address)
+        .add64(ethers.parseUnits("52000", 6))
+        .add64(2000)
+        .encrypt();
+      await payrollSystem.addEmployee(employee1.address, hire.handles[0], hire.handles[1], hire.inputProof);
+
+      const bonus = await fhevm
+        .createEncryptedInput(systemAddress, owner.address)
+        .add64(ethers.parseUnits("5", 6))
+        .encrypt();
+      await payrollSystem.processBonusPayment(employee1.address, bonus.handles[0], bonus.inputProof);
+
+      const netPay = ethers.parseUnits("4", 6);
+      const balance = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await payrollToken.confidentialBalanceOf(employee1.address),
+        await payrollToken.getAddress(),
+        employee1,
+      );
+      expect(balance).to.equal(netPay);
+
+      // Unwrap: the ERC20 is released once the oracle has decrypted the burnt amount
+      const withdrawal = await fhevm
+        .createEncryptedInput(wrapperAddress, employee1.address)
+        .add64(netPay)
+        .encrypt();
+      await expect(
+        wrapper.connect(employee1).unwrap(employee1.address, employee1.address, withdrawal.handles[0], withdrawal.inputProof)
+      ).to.emit(wrapper, "UnwrapRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await usdz.balanceOf(employee1.address)).to.equal(netPay);
+      expect(await usdz.balanceOf(wrapperAddress)).to.equal(reserve + deposit - netPay);
+    });
+
+    it("Should not unwrap another account's balance", async function () {
+      const withdrawal = await fhevm
+        .createEncryptedInput(await wrapper.getAddress(), employee2.address)
+        .add64(1)
+        .encrypt();
+      await expect(
+        wrapper.connect(employee2).unwrap(employee1.address, employee2.address, withdrawal.handles[0], withdrawal.inputProof)
+      ).to.be.revertedWith("Not authorized to unwrap");
     });
   });
-});
\ No newline at end of file
+});